@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { LoginForm } from './components/auth/LoginForm';
 import { RegisterForm } from './components/auth/RegisterForm';
@@ -6,15 +6,34 @@ import { Sidebar } from './components/layout/Sidebar';
 import { DashboardPage } from './components/dashboard/DashboardPage';
 import { TransactionsPage } from './components/transactions/TransactionsPage';
 import { CategoriesPage } from './components/categories/CategoriesPage';
+import { CashFlowPage } from './components/cashflow/CashFlowPage';
 import { DebtsPage } from './components/debts/DebtsPage';
+import { RecurringPage } from './components/recurring/RecurringPage';
+import { BudgetsPage } from './components/budgets/BudgetsPage';
 import { ReportsPage } from './components/reports/ReportsPage';
 import { AnalyticsPage } from './components/analytics/AnalyticsPage';
+import { NavigationParams } from './lib/navigation';
+import { materializeDueOccurrences } from './lib/recurring';
 
 function AppContent() {
   const { user, loading } = useAuth();
   const [isLogin, setIsLogin] = useState(true);
   const [currentPage, setCurrentPage] = useState('dashboard');
+  const [pageParams, setPageParams] = useState<NavigationParams>({});
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const [dataVersion, setDataVersion] = useState(0);
+
+  // Post recurring transactions that fell due since the last visit, then
+  // remount the current page so it shows them.
+  useEffect(() => {
+    if (!user) return;
+
+    materializeDueOccurrences(user.id)
+      .then((created) => {
+        if (created > 0) setDataVersion((version) => version + 1);
+      })
+      .catch((error) => console.error('Error posting recurring transactions:', error));
+  }, [user]);
 
   if (loading) {
     return (
@@ -39,20 +58,31 @@ function AppContent() {
     );
   }
 
+  const navigate = (page: string, params: NavigationParams = {}) => {
+    setCurrentPage(page);
+    setPageParams(params);
+  };
+
   const renderPage = () => {
     switch (currentPage) {
       case 'dashboard':
         return <DashboardPage />;
       case 'transactions':
-        return <TransactionsPage />;
+        return <TransactionsPage params={pageParams} onNavigate={navigate} />;
       case 'categories':
         return <CategoriesPage />;
+      case 'cashflow':
+        return <CashFlowPage />;
+      case 'recurring':
+        return <RecurringPage />;
+      case 'budgets':
+        return <BudgetsPage />;
       case 'debts':
-        return <DebtsPage />;
+        return <DebtsPage params={pageParams} onNavigate={navigate} />;
       case 'reports':
-        return <ReportsPage />;
+        return <ReportsPage onNavigate={navigate} />;
       case 'analytics':
-        return <AnalyticsPage />;
+        return <AnalyticsPage onNavigate={navigate} />;
       default:
         return <DashboardPage />;
     }
@@ -62,12 +92,12 @@ function AppContent() {
     <div className="min-h-screen bg-gray-50">
       <Sidebar
         currentPage={currentPage}
-        onNavigate={setCurrentPage}
+        onNavigate={(page) => navigate(page)}
         isOpen={sidebarOpen}
         onToggle={() => setSidebarOpen(!sidebarOpen)}
       />
       <div className="lg:ml-64 min-h-screen">
-        <main className="p-4 lg:p-8 pt-16 lg:pt-8">
+        <main key={dataVersion} className="p-4 lg:p-8 pt-16 lg:pt-8">
           {renderPage()}
         </main>
       </div>
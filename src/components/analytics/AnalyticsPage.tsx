@@ -1,80 +1,58 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { BarChart3, TrendingUp, PieChart as PieChartIcon } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-
-export const AnalyticsPage: React.FC = () => {
+import { DatePreset, DateRange, getPresetRange, trailingPresets } from '../../lib/dates';
+import { NavigateHandler } from '../../lib/navigation';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+import {
+  AnalyticsTransaction,
+  Granularity,
+  SeriesPoint,
+  buildCategoryShares,
+  buildSeries,
+  granularityLabels,
+} from '../../lib/analytics';
+import { DateRangePicker } from '../common/DateRangePicker';
+import { IncomeExpenseChart } from './IncomeExpenseChart';
+import { CategoryDonut } from './CategoryDonut';
+import { CumulativeNetChart } from './CumulativeNetChart';
+import { Seasonality } from './Seasonality';
+import { EventPeriods } from './EventPeriods';
+import { CashForecast } from './CashForecast';
+import { AnomalyReview } from './AnomalyReview';
+
+const incomeColors = ['#15803d', '#22c55e', '#4ade80', '#86efac', '#14b8a6', '#5eead4'];
+const expenseColors = ['#b91c1c', '#ef4444', '#f87171', '#fca5a5', '#f97316', '#fdba74'];
+
+const windowPresets: DatePreset[] = [...trailingPresets, 'yearToDate'];
+
+interface AnalyticsPageProps {
+  onNavigate: NavigateHandler;
+}
+
+export const AnalyticsPage: React.FC<AnalyticsPageProps> = ({ onNavigate }) => {
   const { user } = useAuth();
-  const [monthlyData, setMonthlyData] = useState<{ month: string; income: number; expense: number }[]>([]);
-  const [categoryData, setCategoryData] = useState<{ name: string; value: number; type: string }[]>([]);
+  // The range is kept with the rows so a new range never buckets stale data.
+  const [loaded, setLoaded] = useState<{ range: DateRange; transactions: AnalyticsTransaction[] } | null>(null);
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('last6Months'));
+  const [granularity, setGranularity] = useState<Granularity>('month');
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
+    if (user && range.start && range.end && range.start <= range.end) {
       loadAnalytics();
     }
-  }, [user]);
+  }, [user, range.start, range.end]);
 
   const loadAnalytics = async () => {
     try {
-      const sixMonthsAgo = new Date();
-      sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6);
-      const startDate = sixMonthsAgo.toISOString().split('T')[0];
-
-      const { data: transactions, error } = await supabase
-        .from('transactions')
-        .select('*, categories(name)')
-        .gte('transaction_date', startDate)
-        .order('transaction_date', { ascending: true });
-
-      if (error) throw error;
-
-      const monthlyMap = new Map<string, { income: number; expense: number }>();
-      const categoryMap = new Map<string, { value: number; type: string }>();
-
-      transactions?.forEach((t) => {
-        const date = new Date(t.transaction_date);
-        const monthKey = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-
-        const existing = monthlyMap.get(monthKey) || { income: 0, expense: 0 };
-        if (t.type === 'income') {
-          existing.income += parseFloat(String(t.amount));
-        } else {
-          existing.expense += parseFloat(String(t.amount));
-        }
-        monthlyMap.set(monthKey, existing);
-
-        const categoryName = t.categories?.name || 'Uncategorized';
-        const catExisting = categoryMap.get(categoryName);
-        if (catExisting) {
-          catExisting.value += parseFloat(String(t.amount));
-        } else {
-          categoryMap.set(categoryName, {
-            value: parseFloat(String(t.amount)),
-            type: t.type,
-          });
-        }
-      });
+      const transactions = await fetchTransactionsBetween<AnalyticsTransaction>(
+        range.start,
+        range.end,
+        'type, amount, category_id, transaction_date, categories(name)'
+      );
 
-      const monthlyArray = Array.from(monthlyMap.entries())
-        .map(([month, data]) => ({
-          month: new Date(month + '-01').toLocaleDateString('id-ID', { month: 'short', year: 'numeric' }),
-          income: data.income,
-          expense: data.expense,
-        }))
-        .sort((a, b) => a.month.localeCompare(b.month));
-
-      const categoryArray = Array.from(categoryMap.entries())
-        .map(([name, data]) => ({
-          name,
-          value: data.value,
-          type: data.type,
-        }))
-        .sort((a, b) => b.value - a.value)
-        .slice(0, 10);
-
-      setMonthlyData(monthlyArray);
-      setCategoryData(categoryArray);
+      setLoaded({ range, transactions });
     } catch (error) {
       console.error('Error loading analytics:', error);
     } finally {
@@ -82,18 +60,21 @@ export const AnalyticsPage: React.FC = () => {
     }
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('id-ID', {
-      style: 'currency',
-      currency: 'IDR',
-      minimumFractionDigits: 0,
-    }).format(amount);
-  };
-
-  const maxValue = Math.max(
-    ...monthlyData.flatMap((d) => [d.income, d.expense]),
-    1
+  const series = useMemo(
+    () => (loaded ? buildSeries(loaded.transactions, loaded.range, granularity) : []),
+    [loaded, granularity]
   );
+  const incomeShares = useMemo(() => buildCategoryShares(loaded?.transactions || [], 'income'), [loaded]);
+  const expenseShares = useMemo(() => buildCategoryShares(loaded?.transactions || [], 'expense'), [loaded]);
+  const hasData = series.some((point) => point.income > 0 || point.expense > 0);
+
+  // A bucket at either end of the range only shows the days inside it.
+  const handleSelect = (point: SeriesPoint) => {
+    onNavigate('transactions', {
+      dateFrom: point.start > range.start ? point.start : range.start,
+      dateTo: point.end < range.end ? point.end : range.end,
+    });
+  };
 
   if (loading) {
     return (
@@ -110,162 +91,75 @@ export const AnalyticsPage: React.FC = () => {
         <p className="text-gray-600">Visual insights of your financial data</p>
       </div>
 
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <DateRangePicker value={range} onChange={setRange} presets={windowPresets} />
+
+        <div className="flex flex-wrap items-center gap-2 mt-6 pt-6 border-t border-gray-200">
+          <span className="text-sm font-medium text-gray-700 mr-2">Group by</span>
+          {(Object.keys(granularityLabels) as Granularity[]).map((option) => (
+            <button
+              key={option}
+              onClick={() => setGranularity(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${
+                granularity === option ? 'bg-blue-500 text-white shadow-lg' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {granularityLabels[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
       <div className="bg-white rounded-xl shadow-md p-6">
         <div className="flex items-center gap-2 mb-6">
           <BarChart3 className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Monthly Income vs Expense (Last 6 Months)</h3>
+          <h3 className="text-lg font-semibold text-gray-900">
+            Income vs Expense by {granularityLabels[granularity]}
+          </h3>
+          {hasData && (
+            <span className="ml-auto text-sm text-gray-500">Click a bar to see its transactions</span>
+          )}
         </div>
 
-        {monthlyData.length === 0 ? (
+        {!hasData ? (
           <p className="text-gray-500 text-center py-8">No data available</p>
         ) : (
-          <div className="space-y-6">
-            {monthlyData.map((data, index) => (
-              <div key={index} className="space-y-2">
-                <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm font-medium text-gray-700">{data.month}</span>
-                  <div className="flex gap-4 text-sm">
-                    <span className="text-green-600 font-semibold">
-                      Income: {formatCurrency(data.income)}
-                    </span>
-                    <span className="text-red-600 font-semibold">
-                      Expense: {formatCurrency(data.expense)}
-                    </span>
-                  </div>
-                </div>
-                <div className="flex gap-2">
-                  <div className="flex-1">
-                    <div className="w-full bg-gray-200 rounded-lg h-8 overflow-hidden">
-                      <div
-                        className="bg-gradient-to-r from-green-500 to-green-600 h-full flex items-center justify-end pr-2 transition-all duration-500"
-                        style={{ width: `${(data.income / maxValue) * 100}%` }}
-                      >
-                        {data.income > 0 && (
-                          <span className="text-xs text-white font-semibold">
-                            {((data.income / maxValue) * 100).toFixed(0)}%
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                  <div className="flex-1">
-                    <div className="w-full bg-gray-200 rounded-lg h-8 overflow-hidden">
-                      <div
-                        className="bg-gradient-to-r from-red-500 to-red-600 h-full flex items-center justify-end pr-2 transition-all duration-500"
-                        style={{ width: `${(data.expense / maxValue) * 100}%` }}
-                      >
-                        {data.expense > 0 && (
-                          <span className="text-xs text-white font-semibold">
-                            {((data.expense / maxValue) * 100).toFixed(0)}%
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                </div>
-              </div>
-            ))}
-          </div>
+          <IncomeExpenseChart data={series} onSelect={handleSelect} />
         )}
       </div>
 
       <div className="bg-white rounded-xl shadow-md p-6">
         <div className="flex items-center gap-2 mb-6">
           <PieChartIcon className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Top 10 Categories by Amount</h3>
+          <h3 className="text-lg font-semibold text-gray-900">Category Share</h3>
         </div>
 
-        {categoryData.length === 0 ? (
-          <p className="text-gray-500 text-center py-8">No data available</p>
-        ) : (
-          <div className="space-y-4">
-            {categoryData.map((category, index) => {
-              const maxCategoryValue = categoryData[0].value;
-              const percentage = (category.value / maxCategoryValue) * 100;
-
-              return (
-                <div key={index} className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <span className="text-lg font-bold text-gray-400">#{index + 1}</span>
-                      <span
-                        className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                          category.type === 'income'
-                            ? 'bg-green-100 text-green-800'
-                            : 'bg-red-100 text-red-800'
-                        }`}
-                      >
-                        {category.type}
-                      </span>
-                      <span className="font-medium text-gray-900">{category.name}</span>
-                    </div>
-                    <span className="font-bold text-gray-900">{formatCurrency(category.value)}</span>
-                  </div>
-                  <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
-                    <div
-                      className={`h-full transition-all duration-500 ${
-                        category.type === 'income'
-                          ? 'bg-gradient-to-r from-green-500 to-green-600'
-                          : 'bg-gradient-to-r from-red-500 to-red-600'
-                      }`}
-                      style={{ width: `${percentage}%` }}
-                    />
-                  </div>
-                </div>
-              );
-            })}
-          </div>
-        )}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <CategoryDonut title="Income" shares={incomeShares} colors={incomeColors} />
+          <CategoryDonut title="Expense" shares={expenseShares} colors={expenseColors} />
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-md p-6">
         <div className="flex items-center gap-2 mb-6">
           <TrendingUp className="w-5 h-5 text-gray-600" />
-          <h3 className="text-lg font-semibold text-gray-900">Financial Trend</h3>
+          <h3 className="text-lg font-semibold text-gray-900">Cumulative Net</h3>
         </div>
 
-        {monthlyData.length === 0 ? (
+        {!hasData ? (
           <p className="text-gray-500 text-center py-8">No data available</p>
         ) : (
-          <div className="space-y-4">
-            {monthlyData.map((data, index) => {
-              const profitLoss = data.income - data.expense;
-              const isProfit = profitLoss >= 0;
-
-              return (
-                <div
-                  key={index}
-                  className={`p-4 rounded-lg border-2 ${
-                    isProfit ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'
-                  }`}
-                >
-                  <div className="flex items-center justify-between">
-                    <span className="font-semibold text-gray-900">{data.month}</span>
-                    <div className="flex items-center gap-2">
-                      <span
-                        className={`text-lg font-bold ${
-                          isProfit ? 'text-green-600' : 'text-red-600'
-                        }`}
-                      >
-                        {isProfit ? '+' : ''}{formatCurrency(profitLoss)}
-                      </span>
-                      <span
-                        className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                          isProfit
-                            ? 'bg-green-500 text-white'
-                            : 'bg-red-500 text-white'
-                        }`}
-                      >
-                        {isProfit ? 'Profit' : 'Loss'}
-                      </span>
-                    </div>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+          <CumulativeNetChart data={series} />
         )}
       </div>
+
+      {loaded && <Seasonality transactions={loaded.transactions} range={loaded.range} />}
+
+      <EventPeriods />
+
+      <CashForecast />
+
+      <AnomalyReview />
     </div>
   );
 };
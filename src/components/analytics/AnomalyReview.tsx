@@ -0,0 +1,172 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, Check, Edit } from 'lucide-react';
+import { supabase, Category, Transaction } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { addDays, today } from '../../lib/dates';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { Anomaly, BASELINE_DAYS, buildBaselines, describeAnomaly, detectAnomaly } from '../../lib/anomalies';
+import { TransactionForm } from '../transactions/TransactionForm';
+
+type ReviewTransaction = Transaction & {
+  categories: Pick<Category, 'name'> | null;
+};
+
+interface FlaggedTransaction {
+  transaction: ReviewTransaction;
+  anomaly: Anomaly;
+}
+
+export const AnomalyReview: React.FC = () => {
+  const { user } = useAuth();
+  const [flagged, setFlagged] = useState<FlaggedTransaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [confirming, setConfirming] = useState<string | null>(null);
+  const [editTransaction, setEditTransaction] = useState<Transaction | undefined>();
+
+  useEffect(() => {
+    if (user) {
+      loadFlagged();
+    }
+  }, [user]);
+
+  const loadFlagged = async () => {
+    try {
+      const to = today();
+      const transactions = await fetchTransactionsBetween<ReviewTransaction>(
+        addDays(to, -(BASELINE_DAYS - 1)),
+        to,
+        '*, categories(name)'
+      );
+      const baselines = buildBaselines(transactions);
+
+      setFlagged(
+        transactions
+          .filter((t) => !t.anomaly_reviewed_at)
+          .map((transaction) => ({ transaction, anomaly: detectAnomaly(transaction, baselines) }))
+          .filter((f): f is FlaggedTransaction => f.anomaly !== null)
+          .reverse()
+      );
+    } catch (error) {
+      console.error('Error loading unusual transactions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async (id: string) => {
+    setConfirming(id);
+    try {
+      const { error } = await supabase
+        .from('transactions')
+        .update({ anomaly_reviewed_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      setFlagged(flagged.filter((f) => f.transaction.id !== id));
+    } catch (error) {
+      console.error('Error confirming transaction:', error);
+    } finally {
+      setConfirming(null);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <AlertTriangle className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Unusual Transactions</h3>
+        {flagged.length > 0 && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+            {flagged.length} to review
+          </span>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        Amounts far outside what each category usually sees over the last {BASELINE_DAYS} days. Confirm the ones that
+        are right and correct the rest.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : flagged.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">Nothing to review</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Description
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Amount</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {flagged.map(({ transaction, anomaly }) => (
+                <tr key={transaction.id} className="hover:bg-gray-50 transition">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {new Date(transaction.transaction_date).toLocaleDateString('id-ID')}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{transaction.description || '-'}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {transaction.categories?.name || <span className="text-gray-400">Uncategorized</span>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <p
+                      className={`text-sm font-bold ${transaction.type === 'income' ? 'text-green-600' : 'text-red-600'}`}
+                    >
+                      {transaction.type === 'income' ? '+' : '-'} {formatCurrency(parseFloat(String(transaction.amount)))}
+                    </p>
+                    <p className="text-xs text-yellow-700">{describeAnomaly(anomaly)}</p>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() => handleConfirm(transaction.id)}
+                      disabled={confirming === transaction.id}
+                      className="inline-flex items-center gap-1 text-green-600 hover:text-green-800 mr-4 transition disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4" />
+                      Confirm
+                    </button>
+                    <button
+                      onClick={() => setEditTransaction(transaction)}
+                      className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 transition"
+                    >
+                      <Edit className="w-4 h-4" />
+                      Correct
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {editTransaction && (
+        <TransactionForm
+          onClose={() => setEditTransaction(undefined)}
+          onSuccess={loadFlagged}
+          editTransaction={editTransaction}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, AlertTriangle, RotateCcw } from 'lucide-react';
+import { supabase, CashFlow } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { addDays, today } from '../../lib/dates';
+import { TransactionRow, fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { buildCashFlowStatement, getStatementFetchRange } from '../../lib/cashFlowStatement';
+import { RecurringWithOverrides, getUpcomingOccurrences } from '../../lib/recurring';
+import {
+  CategoryAssumption,
+  ForecastDebt,
+  ForecastEvent,
+  ForecastHorizon,
+  ForecastTransaction,
+  HISTORY_DAYS,
+  buildCategoryAssumptions,
+  buildDueEvents,
+  buildForecast,
+  buildRecurringEvents,
+  forecastHorizons,
+  getHistoryDays,
+} from '../../lib/forecast';
+import { ForecastChart } from './ForecastChart';
+
+interface ForecastData {
+  from: string;
+  openingBalance: number;
+  historyDays: number;
+  history: CategoryAssumption[];
+  templates: RecurringWithOverrides[];
+  items: ForecastDebt[];
+}
+
+export const CashForecast: React.FC = () => {
+  const { user } = useAuth();
+  const [data, setData] = useState<ForecastData | null>(null);
+  const [assumptions, setAssumptions] = useState<CategoryAssumption[]>([]);
+  const [horizon, setHorizon] = useState<ForecastHorizon>(30);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadForecast();
+    }
+  }, [user]);
+
+  const loadForecast = async () => {
+    try {
+      const from = today();
+      const [periodsResult, templatesResult, itemsResult, firstResult, history] = await Promise.all([
+        supabase.from('cash_flow').select('*'),
+        supabase.from('recurring_transactions').select('*, recurring_occurrence_overrides(*)'),
+        supabase.from('debts_receivables').select('*, debt_installments(*)').neq('status', 'paid'),
+        supabase
+          .from('transactions')
+          .select('transaction_date')
+          .order('transaction_date')
+          .limit(1)
+          .maybeSingle(),
+        fetchTransactionsBetween<ForecastTransaction>(
+          addDays(from, -(HISTORY_DAYS - 1)),
+          from,
+          'type, amount, category_id, recurring_id, categories(name), debt_payments(id)'
+        ),
+      ]);
+
+      if (periodsResult.error) throw periodsResult.error;
+      if (templatesResult.error) throw templatesResult.error;
+      if (itemsResult.error) throw itemsResult.error;
+      if (firstResult.error) throw firstResult.error;
+
+      // The starting point is the cash on hand at the end of today.
+      const periods = (periodsResult.data || []) as CashFlow[];
+      const range = { start: from, end: from };
+      const fetchRange = getStatementFetchRange(periods, range);
+      const transactions = await fetchTransactionsBetween<TransactionRow>(
+        fetchRange.start,
+        from,
+        '*, categories(name), debt_payments(debt_receivable_id, debts_receivables(type, party_name))'
+      );
+      const historyDays = getHistoryDays(firstResult.data?.transaction_date || null, from);
+      const historical = buildCategoryAssumptions(history, historyDays);
+
+      setData({
+        from,
+        openingBalance: buildCashFlowStatement(range, periods, transactions).closingBalance,
+        historyDays,
+        history: historical,
+        templates: (templatesResult.data || []) as RecurringWithOverrides[],
+        items: (itemsResult.data || []) as ForecastDebt[],
+      });
+      setAssumptions(historical);
+    } catch (error) {
+      console.error('Error loading forecast:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const events = useMemo<ForecastEvent[]>(() => {
+    if (!data) return [];
+    const firstDay = addDays(data.from, 1);
+    return [
+      ...buildRecurringEvents(getUpcomingOccurrences(data.templates, firstDay, addDays(data.from, horizon))),
+      ...buildDueEvents(data.items, firstDay),
+    ];
+  }, [data, horizon]);
+
+  const forecast = useMemo(
+    () => (data ? buildForecast(data.openingBalance, data.from, horizon, assumptions, events) : null),
+    [data, horizon, assumptions, events]
+  );
+
+  const updateAssumption = (key: string, monthly: number) => {
+    setAssumptions(assumptions.map((a) => (a.key === key ? { ...a, monthly } : a)));
+  };
+
+  const edited = assumptions.some((a) => a.monthly !== a.historicalMonthly);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  if (loading) {
+    return (
+      <div className="bg-white rounded-xl shadow-md p-6 flex items-center justify-center h-64">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  if (!data || !forecast) {
+    return null;
+  }
+
+  const lastDay = forecast.days[forecast.days.length - 1];
+  const firstShortfall = forecast.days.find((day) => day.balance < 0);
+  const listedDays = forecast.days.filter((day) => day.events.length > 0 || day.balance < 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <LineChart className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Cash Forecast</h3>
+        <div className="ml-auto flex gap-2">
+          {forecastHorizons.map((option) => (
+            <button
+              key={option}
+              onClick={() => setHorizon(option)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${
+                horizon === option ? 'bg-blue-500 text-white shadow-lg' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {option} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600 mb-1">Current Balance</p>
+          <p className="text-xl font-bold text-gray-900">{formatCurrency(forecast.openingBalance)}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600 mb-1">In {horizon} Days</p>
+          <p className={`text-xl font-bold ${lastDay.balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {formatCurrency(lastDay.balance)}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600 mb-1">Lowest Balance</p>
+          <p className={`text-xl font-bold ${forecast.lowest && forecast.lowest.balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {forecast.lowest ? formatCurrency(forecast.lowest.balance) : '-'}
+          </p>
+          {forecast.lowest && <p className="text-xs text-gray-500 mt-1">{formatDate(forecast.lowest.date)}</p>}
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600 mb-1">Days Below Zero</p>
+          <p className={`text-xl font-bold ${forecast.negativeDays > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+            {forecast.negativeDays}
+          </p>
+        </div>
+      </div>
+
+      {firstShortfall && (
+        <div className="flex items-start gap-3 p-4 mb-6 rounded-lg bg-red-50 border border-red-200">
+          <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0" />
+          <p className="text-sm text-red-700">
+            The balance is projected to go negative on {formatDate(firstShortfall.date)} and is below zero on{' '}
+            {forecast.negativeDays} of the next {horizon} days.
+          </p>
+        </div>
+      )}
+
+      <ForecastChart days={forecast.days} />
+
+      <h4 className="text-sm font-semibold text-gray-900 mt-8 mb-3">Scheduled Items and Shortfalls</h4>
+      {listedDays.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">No recurring items, debts or receivables due in this window</p>
+      ) : (
+        <div className="overflow-x-auto max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Date</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Items</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Projected Balance
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {listedDays.map((day) => (
+                <tr key={day.date} className={day.balance < 0 ? 'bg-red-50' : ''}>
+                  <td className="px-6 py-3 text-sm text-gray-900 whitespace-nowrap align-top">{formatDate(day.date)}</td>
+                  <td className="px-6 py-3 text-sm text-gray-700">
+                    {day.events.length === 0 ? (
+                      <span className="text-gray-400">Average spending only</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {day.events.map((event, index) => (
+                          <li key={index} className="flex justify-between gap-4">
+                            <span>{event.label}</span>
+                            <span className={`font-semibold ${event.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {event.amount >= 0 ? '+' : '-'}
+                              {formatCurrency(Math.abs(event.amount))}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td
+                    className={`px-6 py-3 text-sm text-right font-semibold whitespace-nowrap align-top ${
+                      day.balance < 0 ? 'text-red-600' : 'text-gray-900'
+                    }`}
+                  >
+                    {formatCurrency(day.balance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-8 mb-3">
+        <h4 className="text-sm font-semibold text-gray-900">Assumptions per Category</h4>
+        {edited && (
+          <button
+            onClick={() => setAssumptions(data.history)}
+            className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700 font-semibold"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset to history
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-3">
+        Monthly averages over the last {data.historyDays} days, spread evenly across each day. Recurring transactions and
+        debt payments are left out because they are scheduled above; overdue debts and receivables are assumed to settle
+        tomorrow. Edits only change this forecast.
+      </p>
+      {assumptions.length === 0 ? (
+        <p className="text-gray-500 text-center py-6">No transactions in the last {data.historyDays} days</p>
+      ) : (
+        <div className="overflow-x-auto border border-gray-200 rounded-lg">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Category</th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">Type</th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Historical / Month
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Assumed / Month
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {assumptions.map((assumption) => (
+                <tr key={assumption.key}>
+                  <td className="px-6 py-3 text-sm text-gray-900">{assumption.name}</td>
+                  <td className="px-6 py-3">
+                    <span
+                      className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                        assumption.type === 'income' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                      }`}
+                    >
+                      {assumption.type}
+                    </span>
+                  </td>
+                  <td className="px-6 py-3 text-sm text-right text-gray-600">
+                    {formatCurrency(assumption.historicalMonthly)}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <input
+                      type="number"
+                      min="0"
+                      step="1000"
+                      value={assumption.monthly}
+                      onChange={(e) => updateAssumption(assumption.key, Math.max(0, parseFloat(e.target.value) || 0))}
+                      className={`w-40 px-3 py-1.5 border rounded-lg text-sm text-right focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+                        assumption.monthly !== assumption.historicalMonthly ? 'border-blue-400 bg-blue-50' : 'border-gray-300'
+                      }`}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Cell, Legend, Pie, PieChart, ResponsiveContainer, Tooltip } from 'recharts';
+import { CategoryShare } from '../../lib/analytics';
+
+interface CategoryDonutProps {
+  title: string;
+  shares: CategoryShare[];
+  colors: string[];
+}
+
+export const CategoryDonut: React.FC<CategoryDonutProps> = ({ title, shares, colors }) => {
+  const total = shares.reduce((sum, s) => sum + s.value, 0);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatShare = (value: number) =>
+    `${formatCurrency(value)} (${((value / total) * 100).toLocaleString('id-ID', { maximumFractionDigits: 1 })}%)`;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-2">
+        <h4 className="text-sm font-semibold text-gray-900">{title}</h4>
+        <span className="text-sm text-gray-500">{formatCurrency(total)}</span>
+      </div>
+      {shares.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No data available</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={280}>
+          <PieChart>
+            <Pie data={shares} dataKey="value" nameKey="name" innerRadius="55%" outerRadius="80%" paddingAngle={1}>
+              {shares.map((share, index) => (
+                <Cell key={share.key} fill={colors[index % colors.length]} />
+              ))}
+            </Pie>
+            <Tooltip formatter={(value) => formatShare(Number(value))} />
+            <Legend iconType="circle" />
+          </PieChart>
+        </ResponsiveContainer>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Area, AreaChart, CartesianGrid, Legend, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SeriesPoint } from '../../lib/analytics';
+
+interface CumulativeNetChartProps {
+  data: SeriesPoint[];
+}
+
+export const CumulativeNetChart: React.FC<CumulativeNetChartProps> = ({ data }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatAxis = (amount: number) => new Intl.NumberFormat('id-ID', { notation: 'compact' }).format(amount);
+
+  return (
+    <ResponsiveContainer width="100%" height={280}>
+      <AreaChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+        <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#4b5563' }} />
+        <YAxis tickFormatter={formatAxis} tick={{ fontSize: 12, fill: '#4b5563' }} width={60} />
+        <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+        <Legend />
+        <ReferenceLine y={0} stroke="#9ca3af" />
+        <Area
+          dataKey="cumulativeNet"
+          name="Cumulative Net"
+          type="monotone"
+          stroke="#8b5cf6"
+          fill="#8b5cf6"
+          fillOpacity={0.15}
+          strokeWidth={2}
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+};
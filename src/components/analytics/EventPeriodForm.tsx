@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase, EventPeriod } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { today } from '../../lib/dates';
+
+interface EventPeriodFormProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  editEvent?: EventPeriod;
+}
+
+export const EventPeriodForm: React.FC<EventPeriodFormProps> = ({ onClose, onSuccess, editEvent }) => {
+  const { user } = useAuth();
+  const [name, setName] = useState(editEvent?.name || '');
+  const [startDate, setStartDate] = useState(editEvent?.start_date || today());
+  const [endDate, setEndDate] = useState(editEvent?.end_date || today());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (endDate < startDate) {
+        throw new Error('End date cannot be before the start date');
+      }
+
+      const eventData = {
+        user_id: user?.id,
+        name: name.trim(),
+        start_date: startDate,
+        end_date: endDate,
+      };
+
+      if (editEvent) {
+        const { error } = await supabase.from('event_periods').update(eventData).eq('id', editEvent.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('event_periods').insert([eventData]);
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save event');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-900">{editEvent ? 'Edit Event' : 'New Event'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              placeholder="e.g. Ramadan 2026"
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : editEvent ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
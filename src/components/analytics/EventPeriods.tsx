@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Flag, Plus, Edit, Trash2 } from 'lucide-react';
+import { supabase, EventPeriod } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { DateRange, today } from '../../lib/dates';
+import { Delta } from '../../lib/periodComparison';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+import {
+  BASELINE_WEEKS,
+  EventComparison,
+  SeasonalityTransaction,
+  compareEvent,
+  getBaselineRange,
+} from '../../lib/seasonality';
+import { EventPeriodForm } from './EventPeriodForm';
+
+export const EventPeriods: React.FC = () => {
+  const { user } = useAuth();
+  const [comparisons, setComparisons] = useState<EventComparison[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editEvent, setEditEvent] = useState<EventPeriod | undefined>();
+
+  useEffect(() => {
+    if (user) {
+      loadEvents();
+    }
+  }, [user]);
+
+  const loadEvents = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('event_periods')
+        .select('*')
+        .order('start_date', { ascending: false });
+
+      if (error) throw error;
+
+      // Each event is read with the weeks before it that it is compared with.
+      const events = (data || []) as EventPeriod[];
+      setComparisons(
+        await Promise.all(
+          events.map(async (event) =>
+            compareEvent(
+              event,
+              await fetchTransactionsBetween<SeasonalityTransaction>(
+                getBaselineRange(event).start,
+                event.end_date,
+                'type, amount, transaction_date'
+              )
+            )
+          )
+        )
+      );
+    } catch (error) {
+      console.error('Error loading events:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this event? Transactions are not affected.')) return;
+
+    try {
+      const { error } = await supabase.from('event_periods').delete().eq('id', id);
+      if (error) throw error;
+      loadEvents();
+    } catch (error) {
+      console.error('Error deleting event:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatRange = (range: DateRange) =>
+    `${new Date(range.start).toLocaleDateString('id-ID')} – ${new Date(range.end).toLocaleDateString('id-ID')}`;
+
+  const formatPercent = (value: number | null) =>
+    value === null ? '-' : `${value > 0 ? '+' : ''}${value.toLocaleString('id-ID', { maximumFractionDigits: 1 })}%`;
+
+  const renderRow = (label: string, delta: Delta, higherIsBetter: boolean) => {
+    const changeClass =
+      delta.change === 0 ? 'text-gray-700' : delta.change > 0 === higherIsBetter ? 'text-green-600' : 'text-red-600';
+    return (
+      <tr>
+        <td className="px-6 py-3 text-sm text-gray-900">{label}</td>
+        <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(delta.current)}</td>
+        <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(delta.comparison)}</td>
+        <td className={`px-6 py-3 text-sm text-right font-semibold whitespace-nowrap ${changeClass}`}>
+          {formatPercent(delta.percentChange)}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-2">
+        <Flag className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Events</h3>
+        <button
+          onClick={() => setShowForm(true)}
+          className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white text-sm font-semibold hover:bg-blue-600 transition"
+        >
+          <Plus className="w-4 h-4" />
+          Add Event
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-6">
+        Mark periods such as Ramadan or Lebaran to compare their daily averages with the {BASELINE_WEEKS} weeks before
+        them.
+      </p>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : comparisons.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No events yet</p>
+      ) : (
+        <div className="space-y-6">
+          {comparisons.map((comparison) => (
+            <div key={comparison.event.id} className="border border-gray-200 rounded-lg overflow-hidden">
+              <div className="flex items-center gap-3 px-6 py-3 bg-gray-50 border-b border-gray-200">
+                <span className="font-semibold text-gray-900">{comparison.event.name}</span>
+                <span className="text-sm text-gray-500">
+                  {formatRange({ start: comparison.event.start_date, end: comparison.event.end_date })}
+                </span>
+                {comparison.event.start_date > today() && (
+                  <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                    Upcoming
+                  </span>
+                )}
+                <div className="ml-auto">
+                  <button
+                    onClick={() => {
+                      setEditEvent(comparison.event);
+                      setShowForm(true);
+                    }}
+                    className="text-blue-600 hover:text-blue-800 mr-4 transition"
+                  >
+                    <Edit className="w-5 h-5 inline" />
+                  </button>
+                  <button
+                    onClick={() => handleDelete(comparison.event.id)}
+                    className="text-red-600 hover:text-red-800 transition"
+                  >
+                    <Trash2 className="w-5 h-5 inline" />
+                  </button>
+                </div>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr>
+                      <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                        Per Day
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                        During Event
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                        Baseline
+                        <span className="block font-normal normal-case tracking-normal text-gray-500">
+                          {formatRange(comparison.baseline)}
+                        </span>
+                      </th>
+                      <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                        Change
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {renderRow('Income', comparison.income, true)}
+                    {renderRow('Expense', comparison.expense, false)}
+                    {renderRow('Net', comparison.net, true)}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showForm && (
+        <EventPeriodForm
+          onClose={() => {
+            setShowForm(false);
+            setEditEvent(undefined);
+          }}
+          onSuccess={loadEvents}
+          editEvent={editEvent}
+        />
+      )}
+    </div>
+  );
+};
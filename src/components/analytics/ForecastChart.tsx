@@ -0,0 +1,58 @@
+import React from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ForecastDay } from '../../lib/forecast';
+import { parseDateString } from '../../lib/dates';
+
+interface ForecastChartProps {
+  days: ForecastDay[];
+}
+
+export const ForecastChart: React.FC<ForecastChartProps> = ({ days }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatAxis = (amount: number) => new Intl.NumberFormat('id-ID', { notation: 'compact' }).format(amount);
+
+  const data = days.map((day) => ({
+    label: parseDateString(day.date).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' }),
+    balance: Math.round(day.balance),
+  }));
+
+  // Where zero sits between the top and bottom of the area, so the part
+  // below zero can be drawn red.
+  const max = Math.max(...data.map((d) => d.balance));
+  const min = Math.min(...data.map((d) => d.balance));
+  const zero = max <= 0 ? 0 : min >= 0 ? 1 : max / (max - min);
+
+  return (
+    <ResponsiveContainer width="100%" height={300}>
+      <AreaChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: 10 }}>
+        <defs>
+          <linearGradient id="forecastSplit" x1="0" y1="0" x2="0" y2="1">
+            <stop offset={zero} stopColor="#3b82f6" />
+            <stop offset={zero} stopColor="#ef4444" />
+          </linearGradient>
+        </defs>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+        <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#4b5563' }} minTickGap={16} />
+        <YAxis tickFormatter={formatAxis} tick={{ fontSize: 12, fill: '#4b5563' }} width={60} />
+        <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+        <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+        <Area
+          dataKey="balance"
+          name="Projected Balance"
+          type="monotone"
+          stroke="url(#forecastSplit)"
+          fill="url(#forecastSplit)"
+          fillOpacity={0.15}
+          strokeWidth={2}
+        />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SeriesPoint } from '../../lib/analytics';
+
+interface IncomeExpenseChartProps {
+  data: SeriesPoint[];
+  onSelect: (point: SeriesPoint) => void;
+}
+
+export const IncomeExpenseChart: React.FC<IncomeExpenseChartProps> = ({ data, onSelect }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatAxis = (amount: number) => new Intl.NumberFormat('id-ID', { notation: 'compact' }).format(amount);
+
+  return (
+    <ResponsiveContainer width="100%" height={320}>
+      <ComposedChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+        <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#4b5563' }} />
+        <YAxis tickFormatter={formatAxis} tick={{ fontSize: 12, fill: '#4b5563' }} width={60} />
+        <Tooltip formatter={(value) => formatCurrency(Number(value))} cursor={{ fill: '#f3f4f6' }} />
+        <Legend />
+        <Bar
+          dataKey="income"
+          name="Income"
+          fill="#22c55e"
+          radius={[4, 4, 0, 0]}
+          cursor="pointer"
+          onClick={(_, index) => onSelect(data[index])}
+        />
+        <Bar
+          dataKey="expense"
+          name="Expense"
+          fill="#ef4444"
+          radius={[4, 4, 0, 0]}
+          cursor="pointer"
+          onClick={(_, index) => onSelect(data[index])}
+        />
+        <Line dataKey="net" name="Net" type="monotone" stroke="#3b82f6" strokeWidth={2} dot={{ r: 3 }} />
+      </ComposedChart>
+    </ResponsiveContainer>
+  );
+};
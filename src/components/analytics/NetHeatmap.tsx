@@ -0,0 +1,86 @@
+import React from 'react';
+import { DailyTotals, HeatmapWeek, getWeekdayLabel } from '../../lib/seasonality';
+import { parseDateString } from '../../lib/dates';
+
+interface NetHeatmapProps {
+  weeks: HeatmapWeek[];
+}
+
+const positiveShades = ['bg-green-100', 'bg-green-300', 'bg-green-500', 'bg-green-700'];
+const negativeShades = ['bg-red-100', 'bg-red-300', 'bg-red-500', 'bg-red-700'];
+
+// Every other row is labelled to keep the column narrow.
+const weekdayLabels = Array.from({ length: 7 }, (_, weekday) => (weekday % 2 === 0 ? getWeekdayLabel(weekday) : ''));
+
+export const NetHeatmap: React.FC<NetHeatmapProps> = ({ weeks }) => {
+  const largest = Math.max(
+    0,
+    ...weeks.flatMap((week) => week.days.map((day) => (day ? Math.abs(day.net) : 0)))
+  );
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  // Four shades each way, scaled to the largest day in view.
+  const shade = (day: DailyTotals) => {
+    if (day.net === 0 || largest === 0) return 'bg-gray-100';
+    const level = Math.min(Math.floor((Math.abs(day.net) / largest) * 4), 3);
+    return day.net > 0 ? positiveShades[level] : negativeShades[level];
+  };
+
+  // A week is labelled with its month when the month starts in it.
+  const monthLabel = (week: HeatmapWeek, index: number) => {
+    const first = week.days.find((day) => day && (index === 0 || day.date.endsWith('-01')));
+    return first
+      ? parseDateString(first.date).toLocaleDateString('id-ID', { month: 'short' })
+      : '';
+  };
+
+  return (
+    <div>
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-1">
+          <div className="flex flex-col gap-1 pt-5 pr-1">
+            {weekdayLabels.map((label, index) => (
+              <span key={index} className="h-3.5 text-[10px] leading-[14px] text-gray-500">
+                {label}
+              </span>
+            ))}
+          </div>
+          {weeks.map((week, index) => (
+            <div key={week.start} className="flex flex-col gap-1">
+              <span className="h-4 text-[10px] text-gray-500 whitespace-nowrap">{monthLabel(week, index)}</span>
+              {week.days.map((day, weekday) =>
+                day ? (
+                  <div
+                    key={day.date}
+                    title={`${parseDateString(day.date).toLocaleDateString('id-ID')}: ${formatCurrency(day.net)}`}
+                    className={`w-3.5 h-3.5 rounded-sm ${shade(day)}`}
+                  />
+                ) : (
+                  <div key={weekday} className="w-3.5 h-3.5" />
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center gap-1 mt-3 text-xs text-gray-500">
+        <span className="mr-1">Net loss</span>
+        {[...negativeShades].reverse().map((color) => (
+          <div key={color} className={`w-3.5 h-3.5 rounded-sm ${color}`} />
+        ))}
+        <div className="w-3.5 h-3.5 rounded-sm bg-gray-100" />
+        {positiveShades.map((color) => (
+          <div key={color} className={`w-3.5 h-3.5 rounded-sm ${color}`} />
+        ))}
+        <span className="ml-1">Net gain</span>
+      </div>
+    </div>
+  );
+};
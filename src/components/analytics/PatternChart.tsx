@@ -0,0 +1,33 @@
+import React from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { PatternPoint } from '../../lib/seasonality';
+
+interface PatternChartProps {
+  data: PatternPoint[];
+}
+
+export const PatternChart: React.FC<PatternChartProps> = ({ data }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatAxis = (amount: number) => new Intl.NumberFormat('id-ID', { notation: 'compact' }).format(amount);
+
+  return (
+    <ResponsiveContainer width="100%" height={260}>
+      <BarChart data={data} margin={{ top: 10, right: 10, bottom: 0, left: 10 }}>
+        <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" vertical={false} />
+        <XAxis dataKey="label" tick={{ fontSize: 12, fill: '#4b5563' }} />
+        <YAxis tickFormatter={formatAxis} tick={{ fontSize: 12, fill: '#4b5563' }} width={60} />
+        <Tooltip formatter={(value) => formatCurrency(Number(value))} cursor={{ fill: '#f3f4f6' }} />
+        <Legend />
+        <Bar dataKey="averageIncome" name="Avg. Income / Day" fill="#22c55e" radius={[4, 4, 0, 0]} />
+        <Bar dataKey="averageExpense" name="Avg. Expense / Day" fill="#ef4444" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useMemo } from 'react';
+import { CalendarDays } from 'lucide-react';
+import { DateRange } from '../../lib/dates';
+import {
+  SeasonalityTransaction,
+  buildDailyTotals,
+  buildHeatmap,
+  buildWeekOfMonthPattern,
+  buildWeekdayPattern,
+} from '../../lib/seasonality';
+import { PatternChart } from './PatternChart';
+import { NetHeatmap } from './NetHeatmap';
+
+interface SeasonalityProps {
+  transactions: SeasonalityTransaction[];
+  range: DateRange;
+}
+
+export const Seasonality: React.FC<SeasonalityProps> = ({ transactions, range }) => {
+  const days = useMemo(() => buildDailyTotals(transactions, range), [transactions, range]);
+  const weekdays = useMemo(() => buildWeekdayPattern(days), [days]);
+  const weeksOfMonth = useMemo(() => buildWeekOfMonthPattern(days), [days]);
+  const heatmap = useMemo(() => buildHeatmap(days), [days]);
+
+  const busiest = weekdays.reduce((best, point) => (point.averageIncome > best.averageIncome ? point : best));
+  const quietest = weekdays.reduce((low, point) => (point.averageIncome < low.averageIncome ? point : low));
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <CalendarDays className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Seasonality</h3>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          <div className="flex items-baseline justify-between mb-2">
+            <h4 className="text-sm font-semibold text-gray-900">By Day of Week</h4>
+            {busiest.averageIncome > 0 && (
+              <span className="text-sm text-gray-500">
+                Busiest {busiest.label} ({formatCurrency(busiest.averageIncome)}), quietest {quietest.label}
+              </span>
+            )}
+          </div>
+          <PatternChart data={weekdays} />
+        </div>
+        <div>
+          <div className="flex items-baseline justify-between mb-2">
+            <h4 className="text-sm font-semibold text-gray-900">By Day of Month</h4>
+            <span className="text-sm text-gray-500">Shows the lift around payday</span>
+          </div>
+          <PatternChart data={weeksOfMonth} />
+        </div>
+      </div>
+
+      <h4 className="text-sm font-semibold text-gray-900 mt-8 mb-3">Daily Net</h4>
+      <NetHeatmap weeks={heatmap} />
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { supabase, Budget, Category } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { today } from '../../lib/dates';
+
+interface BudgetFormProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  editBudget?: Budget;
+  // Categories that already have a budget and cannot get a second one.
+  budgetedCategoryIds: string[];
+}
+
+export const BudgetForm: React.FC<BudgetFormProps> = ({ onClose, onSuccess, editBudget, budgetedCategoryIds }) => {
+  const { user } = useAuth();
+  const [categoryId, setCategoryId] = useState(editBudget?.category_id || '');
+  const [monthlyLimit, setMonthlyLimit] = useState(editBudget ? String(editBudget.monthly_limit) : '');
+  const [rollover, setRollover] = useState(editBudget?.rollover || false);
+  // Held as yyyy-mm for the month input.
+  const [startMonth, setStartMonth] = useState((editBudget?.start_month || today()).slice(0, 7));
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('type', 'expense')
+        .order('name');
+
+      if (error) throw error;
+      setCategories(
+        (data || []).filter((c) => c.id === editBudget?.category_id || !budgetedCategoryIds.includes(c.id))
+      );
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const budgetData = {
+        user_id: user?.id,
+        category_id: categoryId,
+        monthly_limit: parseFloat(monthlyLimit),
+        rollover,
+        start_month: `${startMonth}-01`,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (editBudget) {
+        const { error } = await supabase.from('budgets').update(budgetData).eq('id', editBudget.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('budgets').insert([budgetData]);
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save budget');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-900">{editBudget ? 'Edit Budget' : 'New Budget'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Expense Category</label>
+            <select
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              required
+            >
+              <option value="">Select a category</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Monthly Limit (IDR)</label>
+            <input
+              type="number"
+              value={monthlyLimit}
+              onChange={(e) => setMonthlyLimit(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              placeholder="0"
+              required
+              min="0"
+              step="0.01"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Starting Month</label>
+            <input
+              type="month"
+              value={startMonth}
+              onChange={(e) => setStartMonth(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              required
+            />
+          </div>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={rollover}
+              onChange={(e) => setRollover(e.target.checked)}
+              className="mt-1 w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-700">Roll over unspent budget</span>
+              <span className="block text-sm text-gray-500">
+                Whatever is left at the end of a month is added to the next month's limit.
+              </span>
+            </span>
+          </label>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : editBudget ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, ChevronLeft, ChevronRight, Target } from 'lucide-react';
+import { supabase, Budget } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { addMonths, today } from '../../lib/dates';
+import {
+  BudgetStatus,
+  BudgetTransaction,
+  BudgetWithCategory,
+  buildBudgetMonth,
+  fetchBudgetTransactions,
+  formatMonth,
+  getBudgetStatus,
+  getMonthStart,
+} from '../../lib/budgets';
+import { BudgetForm } from './BudgetForm';
+
+const statusColors: Record<BudgetStatus, string> = {
+  under: 'bg-green-500',
+  near: 'bg-yellow-500',
+  over: 'bg-red-500',
+};
+
+export const BudgetsPage: React.FC = () => {
+  const { user } = useAuth();
+  const [budgets, setBudgets] = useState<BudgetWithCategory[]>([]);
+  const [transactions, setTransactions] = useState<BudgetTransaction[]>([]);
+  const [month, setMonth] = useState(() => getMonthStart(today()));
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editBudget, setEditBudget] = useState<Budget | undefined>();
+
+  useEffect(() => {
+    if (user) {
+      loadBudgets();
+    }
+  }, [user, month]);
+
+  const loadBudgets = async () => {
+    try {
+      const { data, error } = await supabase.from('budgets').select('*, categories(name)');
+      if (error) throw error;
+
+      const rows = (data || []) as BudgetWithCategory[];
+      setTransactions(await fetchBudgetTransactions(rows, month));
+      setBudgets(rows);
+    } catch (error) {
+      console.error('Error loading budgets:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this budget? Transactions are not affected.')) return;
+
+    try {
+      const { error } = await supabase.from('budgets').delete().eq('id', id);
+      if (error) throw error;
+      loadBudgets();
+    } catch (error) {
+      console.error('Error deleting budget:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const rows = budgets
+    .map((budget) => ({ budget, current: buildBudgetMonth(budget, transactions, month) }))
+    .sort((a, b) => (a.budget.categories?.name || '').localeCompare(b.budget.categories?.name || ''));
+  const active = rows.flatMap((row) => (row.current ? [row.current] : []));
+  const totalAvailable = active.reduce((sum, m) => sum + m.available, 0);
+  const totalSpent = active.reduce((sum, m) => sum + m.spent, 0);
+
+  const budgetedIds = budgets.map((b) => b.category_id);
+  const unbudgeted = transactions
+    .filter((t) => getMonthStart(t.transaction_date) === month && !budgetedIds.includes(t.category_id || ''))
+    .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Budgets</h1>
+          <p className="text-gray-600">Monthly spending limits per expense category</p>
+        </div>
+        <button
+          onClick={() => {
+            setEditBudget(undefined);
+            setShowForm(true);
+          }}
+          className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
+        >
+          <Plus className="w-5 h-5" />
+          New Budget
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6 flex flex-wrap items-center gap-4">
+        <button
+          onClick={() => setMonth(addMonths(month, -1))}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <span className="text-lg font-semibold text-gray-900 min-w-[10rem] text-center">{formatMonth(month)}</span>
+        <button
+          onClick={() => setMonth(addMonths(month, 1))}
+          className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        {month !== getMonthStart(today()) && (
+          <button
+            onClick={() => setMonth(getMonthStart(today()))}
+            className="px-4 py-2 rounded-lg text-sm font-semibold transition bg-gray-100 text-gray-700 hover:bg-gray-200"
+          >
+            This Month
+          </button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <p className="text-sm text-gray-600 mb-1">Budgeted</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalAvailable)}</p>
+        </div>
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <p className="text-sm text-gray-600 mb-1">Spent</p>
+          <p className="text-2xl font-bold text-gray-900">{formatCurrency(totalSpent)}</p>
+          {unbudgeted > 0 && (
+            <p className="text-xs text-gray-500 mt-1">
+              Plus {formatCurrency(unbudgeted)} in categories without a budget
+            </p>
+          )}
+        </div>
+        <div className="bg-white rounded-xl shadow-md p-6">
+          <p className="text-sm text-gray-600 mb-1">Remaining</p>
+          <p className={`text-2xl font-bold ${totalAvailable - totalSpent < 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatCurrency(totalAvailable - totalSpent)}
+          </p>
+        </div>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          <Target className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          No budgets yet
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {rows.map(({ budget, current }) => {
+            const status = current ? getBudgetStatus(current) : 'under';
+            const progress = current && current.available > 0 ? (current.spent / current.available) * 100 : 0;
+
+            return (
+              <div
+                key={budget.id}
+                className={`bg-white rounded-xl shadow-md p-6 ${current ? '' : 'opacity-60'}`}
+              >
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <p className="font-semibold text-gray-900">{budget.categories?.name || 'Deleted category'}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatCurrency(parseFloat(String(budget.monthly_limit)))} / month
+                      {budget.rollover && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800">
+                          Rollover
+                        </span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => {
+                        setEditBudget(budget);
+                        setShowForm(true);
+                      }}
+                      className="text-blue-600 hover:text-blue-800 transition"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(budget.id)}
+                      className="text-red-600 hover:text-red-800 transition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+
+                {current ? (
+                  <div className="space-y-2">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">
+                        {formatCurrency(current.spent)} of {formatCurrency(current.available)}
+                      </span>
+                      <span className="font-semibold text-gray-900">{Math.round(progress)}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-2">
+                      <div
+                        className={`${statusColors[status]} h-2 rounded-full transition-all duration-300`}
+                        style={{ width: `${Math.min(progress, 100)}%` }}
+                      />
+                    </div>
+                    <div className="flex justify-between text-xs">
+                      <span className={status === 'over' ? 'text-red-600 font-semibold' : 'text-gray-500'}>
+                        {current.remaining < 0
+                          ? `Over by ${formatCurrency(-current.remaining)}`
+                          : `${formatCurrency(current.remaining)} left`}
+                      </span>
+                      {current.carriedOver > 0 && (
+                        <span className="text-gray-500">Includes {formatCurrency(current.carriedOver)} rolled over</span>
+                      )}
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Starts in {formatMonth(budget.start_month)}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showForm && (
+        <BudgetForm
+          onClose={() => {
+            setShowForm(false);
+            setEditBudget(undefined);
+          }}
+          onSuccess={loadBudgets}
+          editBudget={editBudget}
+          budgetedCategoryIds={budgetedIds}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,390 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Lock, Wallet } from 'lucide-react';
+import { supabase, CashFlow } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { CashMovement, summarizePeriod, summarizePeriods } from '../../lib/cashFlow';
+import { addDays, today } from '../../lib/dates';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+
+export const CashFlowPage: React.FC = () => {
+  const { user } = useAuth();
+  const [periods, setPeriods] = useState<CashFlow[]>([]);
+  const [transactions, setTransactions] = useState<CashMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showOpenForm, setShowOpenForm] = useState(false);
+  const [openForm, setOpenForm] = useState({ period_start: '', opening_balance: '' });
+  const [balanceEdited, setBalanceEdited] = useState(false);
+  const [closePeriod, setClosePeriod] = useState<CashFlow | undefined>();
+  const [closeDate, setCloseDate] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (user) {
+      loadCashFlow();
+    }
+  }, [user]);
+
+  const loadCashFlow = async () => {
+    try {
+      const { data: periodData, error: periodError } = await supabase
+        .from('cash_flow')
+        .select('*')
+        .order('period_start', { ascending: false });
+
+      if (periodError) throw periodError;
+
+      const earliestStart = periodData?.[periodData.length - 1]?.period_start;
+      const movements = earliestStart
+        ? await fetchTransactionsBetween<CashMovement>(earliestStart, null, 'type, amount, transaction_date')
+        : [];
+
+      setPeriods(periodData || []);
+      setTransactions(movements);
+    } catch (error) {
+      console.error('Error loading cash flow:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const summaries = summarizePeriods(periods, transactions);
+  const latest = summaries[0];
+  const currentBalance = latest ? latest.closingBalance : 0;
+
+  // The balance carried into a new period is the previous period's closing
+  // balance, counted up to the day before the new period starts.
+  const getCarriedBalance = (periodStart: string) => {
+    if (!latest) return 0;
+    const period = latest.period.period_end
+      ? latest.period
+      : { ...latest.period, period_end: addDays(periodStart, -1) };
+    return summarizePeriod(period, transactions).closingBalance;
+  };
+
+  const openNewPeriodForm = () => {
+    const start = today();
+    setError('');
+    setBalanceEdited(false);
+    setOpenForm({ period_start: start, opening_balance: String(getCarriedBalance(start)) });
+    setShowOpenForm(true);
+  };
+
+  const handleStartChange = (periodStart: string) => {
+    setOpenForm({
+      period_start: periodStart,
+      opening_balance: balanceEdited || !periodStart
+        ? openForm.opening_balance
+        : String(getCarriedBalance(periodStart)),
+    });
+  };
+
+  const handleOpenPeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    try {
+      if (latest && openForm.period_start <= latest.period.period_start) {
+        throw new Error('A new period must start after the latest period started');
+      }
+      if (latest?.period.period_end && openForm.period_start <= latest.period.period_end) {
+        throw new Error('A new period must start after the latest period ended');
+      }
+
+      // Closes the running period and opens the new one in a single call, so
+      // a failed insert cannot leave the old period closed with no successor.
+      const { error } = await supabase.rpc('open_cash_period', {
+        p_period_start: openForm.period_start,
+        p_opening_balance: parseFloat(openForm.opening_balance) || 0,
+      });
+
+      if (error) throw error;
+
+      setShowOpenForm(false);
+      loadCashFlow();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to open period');
+    }
+  };
+
+  const handleClosePeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closePeriod) return;
+    setError('');
+
+    try {
+      if (closeDate < closePeriod.period_start) {
+        throw new Error('The end date cannot be before the period start');
+      }
+
+      const { error } = await supabase
+        .from('cash_flow')
+        .update({ period_end: closeDate })
+        .eq('id', closePeriod.id);
+
+      if (error) throw error;
+
+      setClosePeriod(undefined);
+      loadCashFlow();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to close period');
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Cash Flow</h1>
+          <p className="text-gray-600">Open and close cash periods and track your running balance</p>
+        </div>
+        <button
+          onClick={openNewPeriodForm}
+          className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
+        >
+          <Plus className="w-5 h-5" />
+          Open Period
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-gradient-to-br from-purple-500 to-purple-600 text-white rounded-xl shadow-lg p-6">
+          <p className="text-purple-100 text-sm font-medium mb-2">Current Balance</p>
+          <p className="text-3xl font-bold">{formatCurrency(currentBalance)}</p>
+        </div>
+        <div className="bg-gradient-to-br from-green-500 to-green-600 text-white rounded-xl shadow-lg p-6">
+          <p className="text-green-100 text-sm font-medium mb-2">Income This Period</p>
+          <p className="text-3xl font-bold">{formatCurrency(latest?.income || 0)}</p>
+        </div>
+        <div className="bg-gradient-to-br from-red-500 to-red-600 text-white rounded-xl shadow-lg p-6">
+          <p className="text-red-100 text-sm font-medium mb-2">Expense This Period</p>
+          <p className="text-3xl font-bold">{formatCurrency(latest?.expense || 0)}</p>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Period
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Opening
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Income
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Expense
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Closing
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {summaries.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                    No cash periods yet. Open a period with your current cash to start tracking.
+                  </td>
+                </tr>
+              ) : (
+                summaries.map(({ period, income, expense, closingBalance }) => (
+                  <tr key={period.id} className="hover:bg-gray-50 transition">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatDate(period.period_start)} – {period.period_end ? formatDate(period.period_end) : 'now'}
+                      {!period.period_end && (
+                        <span className="ml-2 px-3 py-1 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                          open
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                      {formatCurrency(parseFloat(String(period.opening_balance)))}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-green-600">
+                      + {formatCurrency(income)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-red-600">
+                      - {formatCurrency(expense)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-bold text-gray-900">
+                      {formatCurrency(closingBalance)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {!period.period_end && (
+                        <button
+                          onClick={() => {
+                            setError('');
+                            setCloseDate(today());
+                            setClosePeriod(period);
+                          }}
+                          className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 transition"
+                        >
+                          <Lock className="w-4 h-4" />
+                          Close
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showOpenForm && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+            <div className="p-6 border-b">
+              <h3 className="text-2xl font-bold text-gray-900">Open Cash Period</h3>
+            </div>
+            <form onSubmit={handleOpenPeriod} className="p-6 space-y-5">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                  {error}
+                </div>
+              )}
+
+              {latest && !latest.period.period_end && (
+                <div className="bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-lg text-sm">
+                  The current open period will be closed on the day before this period starts.
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+                <input
+                  type="date"
+                  value={openForm.period_start}
+                  onChange={(e) => handleStartChange(e.target.value)}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Opening Balance (IDR)
+                </label>
+                <input
+                  type="number"
+                  value={openForm.opening_balance}
+                  onChange={(e) => {
+                    setBalanceEdited(true);
+                    setOpenForm({ ...openForm, opening_balance: e.target.value });
+                  }}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  placeholder="0"
+                  required
+                  step="0.01"
+                />
+                {latest && (
+                  <p className="text-xs text-gray-500 mt-1 flex items-center gap-1">
+                    <Wallet className="w-3 h-3" />
+                    Carried forward from the previous period:{' '}
+                    {formatCurrency(getCarriedBalance(openForm.period_start || today()))}
+                  </p>
+                )}
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowOpenForm(false)}
+                  className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
+                >
+                  Open
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {closePeriod && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+            <div className="p-6 border-b">
+              <h3 className="text-2xl font-bold text-gray-900">Close Cash Period</h3>
+            </div>
+            <form onSubmit={handleClosePeriod} className="p-6 space-y-5">
+              {error && (
+                <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+                  {error}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+                <input
+                  type="date"
+                  value={closeDate}
+                  min={closePeriod.period_start}
+                  onChange={(e) => setCloseDate(e.target.value)}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                  required
+                />
+              </div>
+
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-600">Closing balance:</span>
+                <span className="font-bold text-gray-900">
+                  {formatCurrency(
+                    summarizePeriod({ ...closePeriod, period_end: closeDate || null }, transactions).closingBalance
+                  )}
+                </span>
+              </div>
+
+              <div className="flex gap-3 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setClosePeriod(undefined)}
+                  className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
+                >
+                  Close Period
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
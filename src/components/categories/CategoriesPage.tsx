@@ -12,6 +12,7 @@ export const CategoriesPage: React.FC = () => {
   const [formData, setFormData] = useState({
     name: '',
     type: 'income' as 'income' | 'expense',
+    is_cost_of_sales: false,
   });
   const [error, setError] = useState('');
 
@@ -49,6 +50,7 @@ export const CategoriesPage: React.FC = () => {
           .update({
             name: formData.name,
             type: formData.type,
+            is_cost_of_sales: formData.type === 'expense' && formData.is_cost_of_sales,
           })
           .eq('id', editCategory.id);
 
@@ -59,6 +61,7 @@ export const CategoriesPage: React.FC = () => {
             user_id: user?.id,
             name: formData.name,
             type: formData.type,
+            is_cost_of_sales: formData.type === 'expense' && formData.is_cost_of_sales,
           },
         ]);
 
@@ -67,7 +70,7 @@ export const CategoriesPage: React.FC = () => {
 
       setShowForm(false);
       setEditCategory(undefined);
-      setFormData({ name: '', type: 'income' });
+      setFormData({ name: '', type: 'income', is_cost_of_sales: false });
       loadCategories();
     } catch (err: any) {
       setError(err.message || 'Failed to save category');
@@ -91,6 +94,7 @@ export const CategoriesPage: React.FC = () => {
     setFormData({
       name: category.name,
       type: category.type,
+      is_cost_of_sales: category.is_cost_of_sales,
     });
     setShowForm(true);
   };
@@ -116,7 +120,7 @@ export const CategoriesPage: React.FC = () => {
         <button
           onClick={() => {
             setEditCategory(undefined);
-            setFormData({ name: '', type: 'income' });
+            setFormData({ name: '', type: 'income', is_cost_of_sales: false });
             setShowForm(true);
           }}
           className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
@@ -186,7 +190,14 @@ export const CategoriesPage: React.FC = () => {
                   key={category.id}
                   className="flex items-center justify-between p-4 bg-red-50 rounded-lg hover:bg-red-100 transition"
                 >
-                  <span className="font-medium text-gray-900">{category.name}</span>
+                  <span className="font-medium text-gray-900">
+                    {category.name}
+                    {category.is_cost_of_sales && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-red-200 text-red-800">
+                        Cost of sales
+                      </span>
+                    )}
+                  </span>
                   <div className="flex gap-2">
                     <button
                       onClick={() => handleEdit(category)}
@@ -265,13 +276,31 @@ export const CategoriesPage: React.FC = () => {
                 </div>
               </div>
 
+              {formData.type === 'expense' && (
+                <label className="flex items-start gap-3 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_cost_of_sales}
+                    onChange={(e) => setFormData({ ...formData, is_cost_of_sales: e.target.checked })}
+                    className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>
+                    Cost of sales (HPP)
+                    <span className="block text-gray-500">
+                      Stock purchases and other costs of the goods you sell. Deducted before gross profit on the
+                      profit and loss statement.
+                    </span>
+                  </span>
+                </label>
+              )}
+
               <div className="flex gap-3 pt-4">
                 <button
                   type="button"
                   onClick={() => {
                     setShowForm(false);
                     setEditCategory(undefined);
-                    setFormData({ name: '', type: 'income' });
+                    setFormData({ name: '', type: 'income', is_cost_of_sales: false });
                   }}
                   className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
                 >
@@ -0,0 +1,109 @@
+import React from 'react';
+import { useAuth } from '../../contexts/AuthContext';
+import { DatePreset, DateRange, datePresetLabels, datePresets, findPreset, getPresetRange } from '../../lib/dates';
+
+interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  // Offers an "All Dates" choice that clears both ends of the range.
+  allowAllDates?: boolean;
+  presets?: DatePreset[];
+}
+
+const monthNames = Array.from({ length: 12 }, (_, month) =>
+  new Date(2000, month, 1).toLocaleDateString('id-ID', { month: 'long' })
+);
+
+export const DateRangePicker: React.FC<DateRangePickerProps> = ({
+  value,
+  onChange,
+  allowAllDates = false,
+  presets = datePresets,
+}) => {
+  const { profile, updateProfile } = useAuth();
+  const fiscalYearStartMonth = profile?.fiscal_year_start_month || 1;
+
+  const isAllDates = !value.start && !value.end;
+  const activePreset = isAllDates ? null : findPreset(value, presets, fiscalYearStartMonth);
+  const hasFiscalPresets = presets.includes('thisFiscalYear') || presets.includes('lastFiscalYear');
+
+  const handleFiscalYearChange = async (month: number) => {
+    const wasFiscal = activePreset === 'thisFiscalYear' || activePreset === 'lastFiscalYear';
+    try {
+      await updateProfile({ fiscal_year_start_month: month });
+      // Keep a selected fiscal year selected under the new start month.
+      if (wasFiscal) onChange(getPresetRange(activePreset, month));
+    } catch (error) {
+      console.error('Error updating fiscal year:', error);
+    }
+  };
+
+  const renderOption = (label: string, active: boolean, onClick: () => void) => (
+    <button
+      key={label}
+      type="button"
+      onClick={onClick}
+      className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${
+        active ? 'bg-blue-500 text-white shadow-lg' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-2">
+        {allowAllDates && renderOption('All Dates', isAllDates, () => onChange({ start: '', end: '' }))}
+        {presets.map((preset) =>
+          renderOption(datePresetLabels[preset], activePreset === preset, () =>
+            onChange(getPresetRange(preset, fiscalYearStartMonth))
+          )
+        )}
+        {!isAllDates && !activePreset && (
+          <span className="px-4 py-2 rounded-lg text-sm font-semibold bg-blue-500 text-white shadow-lg">Custom</span>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+          <input
+            type="date"
+            value={value.start}
+            max={value.end || undefined}
+            onChange={(e) => onChange({ ...value, start: e.target.value })}
+            className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+          <input
+            type="date"
+            value={value.end}
+            min={value.start || undefined}
+            onChange={(e) => onChange({ ...value, end: e.target.value })}
+            className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+          />
+        </div>
+      </div>
+
+      {hasFiscalPresets && (
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          Fiscal year starts in
+          <select
+            value={fiscalYearStartMonth}
+            onChange={(e) => handleFiscalYearChange(Number(e.target.value))}
+            className="px-2 py-1 rounded border border-gray-300 text-gray-700 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+          >
+            {monthNames.map((name, index) => (
+              <option key={name} value={index + 1}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+};
@@ -1,64 +1,148 @@
 import React, { useEffect, useState } from 'react';
-import { TrendingUp, TrendingDown, DollarSign, Wallet } from 'lucide-react';
+import { TrendingUp, TrendingDown, DollarSign, Wallet, ArrowDownLeft, ArrowUpRight } from 'lucide-react';
 import { StatCard } from './StatCard';
-import { supabase } from '../../lib/supabase';
+import { Goals } from './Goals';
+import { supabase, Transaction, DebtPayment, DebtReceivable } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { DateRange, addDays, getPresetRange, getPreviousPeriod, today } from '../../lib/dates';
+import { outstandingAsOf } from '../../lib/debts';
+import { fetchAllPages } from '../../lib/paging';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { DateRangePicker } from '../common/DateRangePicker';
 
-interface FinancialSummary {
+interface PeriodFigures {
   totalIncome: number;
   totalExpense: number;
-  balance: number;
   profitLoss: number;
+  balance: number;
+  receivable: number;
+  debt: number;
 }
 
+interface FinancialSummary {
+  current: PeriodFigures;
+  previous: PeriodFigures;
+  previousPeriod: DateRange | null;
+  balanceSince: string | null;
+}
+
+const emptyFigures: PeriodFigures = {
+  totalIncome: 0,
+  totalExpense: 0,
+  profitLoss: 0,
+  balance: 0,
+  receivable: 0,
+  debt: 0,
+};
+
+const sumByType = (transactions: Transaction[], type: Transaction['type']) =>
+  transactions
+    .filter((t) => t.type === type)
+    .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0);
+
+const netOf = (transactions: Transaction[]) =>
+  sumByType(transactions, 'income') - sumByType(transactions, 'expense');
+
 export const DashboardPage: React.FC = () => {
   const { user } = useAuth();
   const [summary, setSummary] = useState<FinancialSummary>({
-    totalIncome: 0,
-    totalExpense: 0,
-    balance: 0,
-    profitLoss: 0,
+    current: emptyFigures,
+    previous: emptyFigures,
+    previousPeriod: null,
+    balanceSince: null,
   });
-  const [recentTransactions, setRecentTransactions] = useState<any[]>([]);
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('thisMonth'));
+  const [recentTransactions, setRecentTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    if (user) {
+    if (user && range.start && range.end && range.start <= range.end) {
       loadDashboardData();
     }
-  }, [user]);
+  }, [user, range.start, range.end]);
 
   const loadDashboardData = async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
-      const startOfMonth = new Date();
-      startOfMonth.setDate(1);
-      const monthStart = startOfMonth.toISOString().split('T')[0];
+      const now = today();
+      const previous = getPreviousPeriod(range);
+      // Balances are as of the end of each period, or today for one still running.
+      const asOf = range.end < now ? range.end : now;
+      const previousAsOf = previous.end < now ? previous.end : now;
 
-      const { data: transactions, error } = await supabase
-        .from('transactions')
+      const { data: period, error: periodError } = await supabase
+        .from('cash_flow')
         .select('*')
-        .gte('transaction_date', monthStart)
-        .order('transaction_date', { ascending: false });
+        .lte('period_start', now)
+        .order('period_start', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (periodError) throw periodError;
+
+      // Without a cash period the balance is every transaction ever recorded.
+      let fetchFrom: string | null = null;
+      if (period) {
+        fetchFrom = period.period_start < previous.start ? period.period_start : previous.start;
+      }
+      const fetchTo = range.end > now ? range.end : now;
+      // Nothing later than this period's end or today is ever counted.
+      const transactions = await fetchTransactionsBetween(fetchFrom, fetchTo);
+
+      const items = await fetchAllPages<DebtReceivable>((from, to) =>
+        supabase.from('debts_receivables').select('*').order('id').range(from, to)
+      );
+
+      const payments = await fetchAllPages<Pick<DebtPayment, 'debt_receivable_id' | 'amount' | 'payment_date'>>(
+        (from, to) =>
+          supabase
+            .from('debt_payments')
+            .select('debt_receivable_id, amount, payment_date')
+            .order('id')
+            .range(from, to)
+      );
 
-      if (error) throw error;
+      const since = period?.period_start || '';
+      const openingBalance = period ? parseFloat(String(period.opening_balance)) : 0;
 
-      const income = transactions
-        ?.filter((t) => t.type === 'income')
-        .reduce((sum, t) => sum + parseFloat(t.amount), 0) || 0;
+      const inRange = (r: DateRange) =>
+        transactions.filter((t) => t.transaction_date >= r.start && t.transaction_date <= r.end);
+      const thisPeriod = inRange(range);
+      const previousPeriod = inRange(previous);
 
-      const expense = transactions
-        ?.filter((t) => t.type === 'expense')
-        .reduce((sum, t) => sum + parseFloat(t.amount), 0) || 0;
+      const balance =
+        openingBalance + netOf(transactions.filter((t) => t.transaction_date >= since && t.transaction_date <= now));
+      // Roll today's balance back over the movements since each date.
+      const balanceAsOf = (date: string) => balance - netOf(inRange({ start: addDays(date, 1), end: now }));
 
       setSummary({
-        totalIncome: income,
-        totalExpense: expense,
-        balance: income - expense,
-        profitLoss: income - expense,
+        current: {
+          totalIncome: sumByType(thisPeriod, 'income'),
+          totalExpense: sumByType(thisPeriod, 'expense'),
+          profitLoss: netOf(thisPeriod),
+          balance: balanceAsOf(asOf),
+          receivable: outstandingAsOf(items, payments, 'receivable', asOf),
+          debt: outstandingAsOf(items, payments, 'debt', asOf),
+        },
+        previous: {
+          totalIncome: sumByType(previousPeriod, 'income'),
+          totalExpense: sumByType(previousPeriod, 'expense'),
+          profitLoss: netOf(previousPeriod),
+          balance: balanceAsOf(previousAsOf),
+          receivable: outstandingAsOf(items, payments, 'receivable', previousAsOf),
+          debt: outstandingAsOf(items, payments, 'debt', previousAsOf),
+        },
+        previousPeriod: previous,
+        balanceSince: period?.period_start || null,
       });
 
-      setRecentTransactions(transactions?.slice(0, 5) || []);
+      setRecentTransactions(
+        [...thisPeriod]
+          .sort(
+            (a, b) =>
+              b.transaction_date.localeCompare(a.transaction_date) || b.created_at.localeCompare(a.created_at)
+          )
+          .slice(0, 5)
+      );
     } catch (error) {
       console.error('Error loading dashboard data:', error);
     } finally {
@@ -74,6 +158,24 @@ export const DashboardPage: React.FC = () => {
     }).format(amount);
   };
 
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  const getTrend = (key: keyof PeriodFigures, higherIsBetter = true) => {
+    const current = summary.current[key];
+    const previous = summary.previous[key];
+    const change = current - previous;
+    const value =
+      previous !== 0
+        ? `${Math.abs((change / Math.abs(previous)) * 100).toFixed(1)}% vs previous period`
+        : `${formatCurrency(Math.abs(change))} vs previous period`;
+
+    return {
+      value,
+      isIncrease: change >= 0,
+      isPositive: higherIsBetter ? change >= 0 : change <= 0,
+    };
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -86,40 +188,74 @@ export const DashboardPage: React.FC = () => {
     <div className="space-y-6">
       <div>
         <h1 className="text-3xl font-bold text-gray-900 mb-2">Dashboard Overview</h1>
-        <p className="text-gray-600">Financial summary for this month</p>
+        <p className="text-gray-600">
+          Financial summary for {formatDate(range.start)} – {formatDate(range.end)}
+          {summary.balanceSince
+            ? ` · balance since ${new Date(summary.balanceSince).toLocaleDateString('id-ID')}`
+            : ' · open a cash period to set your opening balance'}
+        </p>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <DateRangePicker value={range} onChange={setRange} />
+        {summary.previousPeriod && (
+          <p className="mt-4 text-sm text-gray-500">
+            Compared with {formatDate(summary.previousPeriod.start)} – {formatDate(summary.previousPeriod.end)}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
         <StatCard
           title="Total Income"
-          value={formatCurrency(summary.totalIncome)}
+          value={formatCurrency(summary.current.totalIncome)}
           icon={TrendingUp}
           color="bg-gradient-to-br from-green-500 to-green-600"
+          trend={getTrend('totalIncome')}
         />
         <StatCard
           title="Total Expense"
-          value={formatCurrency(summary.totalExpense)}
+          value={formatCurrency(summary.current.totalExpense)}
           icon={TrendingDown}
           color="bg-gradient-to-br from-red-500 to-red-600"
+          trend={getTrend('totalExpense', false)}
         />
         <StatCard
           title="Profit/Loss"
-          value={formatCurrency(summary.profitLoss)}
+          value={formatCurrency(summary.current.profitLoss)}
           icon={DollarSign}
-          color={summary.profitLoss >= 0 ? 'bg-gradient-to-br from-blue-500 to-blue-600' : 'bg-gradient-to-br from-orange-500 to-orange-600'}
+          color={summary.current.profitLoss >= 0 ? 'bg-gradient-to-br from-blue-500 to-blue-600' : 'bg-gradient-to-br from-orange-500 to-orange-600'}
+          trend={getTrend('profitLoss')}
         />
         <StatCard
           title="Current Balance"
-          value={formatCurrency(summary.balance)}
+          value={formatCurrency(summary.current.balance)}
           icon={Wallet}
           color="bg-gradient-to-br from-purple-500 to-purple-600"
+          trend={getTrend('balance')}
+        />
+        <StatCard
+          title="Cash Owed to Us"
+          value={formatCurrency(summary.current.receivable)}
+          icon={ArrowDownLeft}
+          color="bg-gradient-to-br from-teal-500 to-teal-600"
+          trend={getTrend('receivable', false)}
+        />
+        <StatCard
+          title="Cash We Owe"
+          value={formatCurrency(summary.current.debt)}
+          icon={ArrowUpRight}
+          color="bg-gradient-to-br from-rose-500 to-rose-600"
+          trend={getTrend('debt', false)}
         />
       </div>
 
+      <Goals />
+
       <div className="bg-white rounded-xl shadow-md p-6">
         <h2 className="text-xl font-bold text-gray-900 mb-4">Recent Transactions</h2>
         {recentTransactions.length === 0 ? (
-          <p className="text-gray-500 text-center py-8">No transactions yet</p>
+          <p className="text-gray-500 text-center py-8">No transactions in this period</p>
         ) : (
           <div className="space-y-3">
             {recentTransactions.map((transaction) => (
@@ -146,7 +282,7 @@ export const DashboardPage: React.FC = () => {
                     }`}
                   >
                     {transaction.type === 'income' ? '+' : '-'}{' '}
-                    {formatCurrency(parseFloat(transaction.amount))}
+                    {formatCurrency(parseFloat(String(transaction.amount)))}
                   </p>
                   <p className="text-xs text-gray-500 capitalize">{transaction.type}</p>
                 </div>
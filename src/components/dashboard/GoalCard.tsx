@@ -0,0 +1,92 @@
+import React from 'react';
+import { Target, PiggyBank, Edit, Trash2 } from 'lucide-react';
+import { GoalProgress, goalKindLabels } from '../../lib/goals';
+import { parseDateString, today } from '../../lib/dates';
+
+interface GoalCardProps {
+  progress: GoalProgress;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+export const GoalCard: React.FC<GoalCardProps> = ({ progress, onEdit, onDelete }) => {
+  const { goal, target, reached, percent, daysLeft, requiredDaily, currentDaily } = progress;
+  const Icon = goal.kind === 'revenue' ? Target : PiggyBank;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => parseDateString(date).toLocaleDateString('id-ID');
+
+  const renderRunRate = () => {
+    if (requiredDaily === null) {
+      return <p className="text-sm font-medium text-green-600">Target reached</p>;
+    }
+
+    const onPace = currentDaily !== null && currentDaily >= requiredDaily;
+    return (
+      <>
+        <p className="text-sm font-medium text-gray-900">
+          Needs {formatCurrency(requiredDaily)}/day for {daysLeft} {daysLeft === 1 ? 'day' : 'days'}
+        </p>
+        {goal.start_date > today() ? (
+          <p className="text-xs text-gray-500">Starts {formatDate(goal.start_date)}</p>
+        ) : (
+          <p className={`text-xs font-medium ${onPace ? 'text-green-600' : 'text-red-600'}`}>
+            Current pace {formatCurrency(currentDaily || 0)}/day
+          </p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md hover:shadow-xl transition-shadow duration-300 p-6">
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex-1">
+          <p className="text-sm font-medium text-gray-600 mb-2">
+            {goal.name}
+            <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+              {goalKindLabels[goal.kind]}
+            </span>
+          </p>
+          <h3 className="text-3xl font-bold text-gray-900 mb-2">{formatCurrency(reached)}</h3>
+          <p className="text-sm text-gray-500">
+            of {formatCurrency(target)} by {formatDate(goal.deadline)}
+          </p>
+        </div>
+        <div className={`p-3 rounded-xl ${goal.kind === 'revenue' ? 'bg-gradient-to-br from-indigo-500 to-indigo-600' : 'bg-gradient-to-br from-amber-500 to-amber-600'}`}>
+          <Icon className="w-6 h-6 text-white" />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-3">
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className={`${percent >= 100 ? 'bg-green-500' : 'bg-blue-500'} h-2 rounded-full transition-all duration-300`}
+              style={{ width: `${Math.min(Math.max(percent, 0), 100)}%` }}
+            />
+          </div>
+          <span className="text-sm font-semibold text-gray-900">{Math.round(percent)}%</span>
+        </div>
+        <div className="flex items-end justify-between gap-3">
+          <div>{renderRunRate()}</div>
+          <div className="flex gap-2">
+            <button onClick={onEdit} className="text-blue-600 hover:text-blue-800 transition">
+              <Edit className="w-4 h-4" />
+            </button>
+            <button onClick={onDelete} className="text-red-600 hover:text-red-800 transition">
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
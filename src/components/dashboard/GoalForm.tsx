@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase, Goal } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { getPresetRange, today } from '../../lib/dates';
+import { goalKindLabels } from '../../lib/goals';
+
+interface GoalFormProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  editGoal?: Goal;
+}
+
+const kindHints: Record<Goal['kind'], string> = {
+  revenue: 'Counts income received between the start date and the deadline.',
+  savings: 'Counts income less expenses between the start date and the deadline.',
+};
+
+export const GoalForm: React.FC<GoalFormProps> = ({ onClose, onSuccess, editGoal }) => {
+  const { user } = useAuth();
+  const [name, setName] = useState(editGoal?.name || '');
+  const [kind, setKind] = useState<Goal['kind']>(editGoal?.kind || 'revenue');
+  const [targetAmount, setTargetAmount] = useState(editGoal ? String(editGoal.target_amount) : '');
+  const [startDate, setStartDate] = useState(editGoal?.start_date || getPresetRange('thisMonth').start);
+  const [deadline, setDeadline] = useState(editGoal?.deadline || getPresetRange('thisMonth').end);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (deadline < startDate) {
+        throw new Error('Deadline cannot be before the start date');
+      }
+      if (!editGoal && deadline < today()) {
+        throw new Error('Deadline cannot be in the past');
+      }
+
+      const goalData = {
+        user_id: user?.id,
+        name: name.trim(),
+        kind,
+        target_amount: parseFloat(targetAmount),
+        start_date: startDate,
+        deadline,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (editGoal) {
+        const { error } = await supabase.from('goals').update(goalData).eq('id', editGoal.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('goals').insert([goalData]);
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save goal');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-900">{editGoal ? 'Edit Goal' : 'New Goal'}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(goalKindLabels) as Goal['kind'][]).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setKind(value)}
+                  className={`px-4 py-3 rounded-lg font-semibold transition ${
+                    kind === value ? 'bg-blue-500 text-white shadow-lg' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {goalKindLabels[value]}
+                </button>
+              ))}
+            </div>
+            <p className="mt-2 text-sm text-gray-500">{kindHints[kind]}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              placeholder={kind === 'revenue' ? 'e.g. October sales' : 'e.g. New espresso machine'}
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Target Amount (IDR)</label>
+            <input
+              type="number"
+              value={targetAmount}
+              onChange={(e) => setTargetAmount(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              placeholder="0"
+              required
+              min="0.01"
+              step="0.01"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Deadline</label>
+              <input
+                type="date"
+                value={deadline}
+                onChange={(e) => setDeadline(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : editGoal ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, Target } from 'lucide-react';
+import { supabase, Goal } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { parseDateString, today } from '../../lib/dates';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { GoalProgress, GoalTransaction, archiveEndedGoals, buildGoalProgress, goalKindLabels } from '../../lib/goals';
+import { GoalCard } from './GoalCard';
+import { GoalForm } from './GoalForm';
+
+export const Goals: React.FC = () => {
+  const { user } = useAuth();
+  const [active, setActive] = useState<GoalProgress[]>([]);
+  const [archived, setArchived] = useState<Goal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showForm, setShowForm] = useState(false);
+  const [editGoal, setEditGoal] = useState<Goal | undefined>();
+
+  useEffect(() => {
+    if (user) {
+      loadGoals();
+    }
+  }, [user]);
+
+  const loadGoals = async () => {
+    // Goals past their deadline are closed with their final outcome first. A
+    // failure only delays that; the goals are still shown.
+    try {
+      await archiveEndedGoals();
+    } catch (error) {
+      console.error('Error archiving goals:', error);
+    }
+
+    try {
+      const { data, error } = await supabase.from('goals').select('*').order('deadline');
+      if (error) throw error;
+
+      const goals = (data || []) as Goal[];
+      const current = goals.filter((g) => !g.archived_at);
+      const now = today();
+      const from = current.reduce((earliest, g) => (g.start_date < earliest ? g.start_date : earliest), now);
+      const transactions =
+        current.length > 0
+          ? await fetchTransactionsBetween<GoalTransaction>(from, now, 'type, amount, transaction_date')
+          : [];
+
+      setActive(current.map((goal) => buildGoalProgress(goal, transactions, now)));
+      setArchived(goals.filter((g) => g.archived_at).reverse());
+    } catch (error) {
+      console.error('Error loading goals:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this goal? Transactions are not affected.')) return;
+
+    try {
+      const { error } = await supabase.from('goals').delete().eq('id', id);
+      if (error) throw error;
+      loadGoals();
+    } catch (error) {
+      console.error('Error deleting goal:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => parseDateString(date).toLocaleDateString('id-ID');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 className="text-xl font-bold text-gray-900">Goals</h2>
+        <div className="ml-auto flex gap-2">
+          {archived.length > 0 && (
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className={`px-4 py-2 rounded-lg text-sm font-semibold transition ${
+                showArchived ? 'bg-blue-500 text-white shadow-lg' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              Past Goals ({archived.length})
+            </button>
+          )}
+          <button
+            onClick={() => {
+              setEditGoal(undefined);
+              setShowForm(true);
+            }}
+            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-blue-500 text-white text-sm font-semibold hover:bg-blue-600 transition"
+          >
+            <Plus className="w-4 h-4" />
+            New Goal
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : active.length === 0 ? (
+        <div className="bg-white rounded-xl shadow-md p-12 text-center text-gray-500">
+          <Target className="w-12 h-12 mx-auto mb-3 text-gray-300" />
+          No active goals. Set a revenue or savings target to track it here.
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+          {active.map((progress) => (
+            <GoalCard
+              key={progress.goal.id}
+              progress={progress}
+              onEdit={() => {
+                setEditGoal(progress.goal);
+                setShowForm(true);
+              }}
+              onDelete={() => handleDelete(progress.goal.id)}
+            />
+          ))}
+        </div>
+      )}
+
+      {showArchived && archived.length > 0 && (
+        <div className="bg-white rounded-xl shadow-md overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Goal
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Period
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Target
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Reached
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Outcome
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {archived.map((goal) => (
+                  <tr key={goal.id} className="text-gray-700">
+                    <td className="px-6 py-3 text-sm text-gray-900">
+                      {goal.name}
+                      <span className="block text-xs text-gray-500">{goalKindLabels[goal.kind]}</span>
+                    </td>
+                    <td className="px-6 py-3 text-sm whitespace-nowrap">
+                      {formatDate(goal.start_date)} – {formatDate(goal.deadline)}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right whitespace-nowrap">
+                      {formatCurrency(parseFloat(String(goal.target_amount)))}
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right whitespace-nowrap">
+                      {formatCurrency(parseFloat(String(goal.final_amount ?? 0)))}
+                    </td>
+                    <td className="px-6 py-3 text-sm">
+                      <span
+                        className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                          goal.outcome === 'achieved' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {goal.outcome === 'achieved' ? 'Achieved' : 'Missed'}
+                      </span>
+                    </td>
+                    <td className="px-6 py-3 text-sm text-right">
+                      <button
+                        onClick={() => handleDelete(goal.id)}
+                        className="text-red-600 hover:text-red-800 transition"
+                      >
+                        <Trash2 className="w-5 h-5 inline" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {showForm && (
+        <GoalForm
+          onClose={() => {
+            setShowForm(false);
+            setEditGoal(undefined);
+          }}
+          onSuccess={loadGoals}
+          editGoal={editGoal}
+        />
+      )}
+    </div>
+  );
+};
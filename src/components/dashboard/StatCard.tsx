@@ -9,6 +9,8 @@ interface StatCardProps {
   trend?: {
     value: string;
     isPositive: boolean;
+    // Arrow direction; defaults to isPositive for metrics where up is good.
+    isIncrease?: boolean;
   };
 }
 
@@ -21,7 +23,7 @@ export const StatCard: React.FC<StatCardProps> = ({ title, value, icon: Icon, co
           <h3 className="text-3xl font-bold text-gray-900 mb-2">{value}</h3>
           {trend && (
             <p className={`text-sm font-medium ${trend.isPositive ? 'text-green-600' : 'text-red-600'}`}>
-              {trend.isPositive ? '↑' : '↓'} {trend.value}
+              {(trend.isIncrease ?? trend.isPositive) ? '↑' : '↓'} {trend.value}
             </p>
           )}
         </div>
@@ -0,0 +1,142 @@
+import React from 'react';
+import { Edit, Trash2, Banknote, History, ExternalLink } from 'lucide-react';
+import { DebtInstallment, DebtReceivable } from '../../lib/supabase';
+import { allocateInstallments, getRemaining, isOverdue } from '../../lib/debts';
+
+interface DebtCardProps {
+  item: DebtReceivable;
+  installments: DebtInstallment[];
+  onEdit: (item: DebtReceivable) => void;
+  onDelete: (id: string) => void;
+  onRecordPayment: (item: DebtReceivable) => void;
+  onShowHistory: (item: DebtReceivable) => void;
+  linkedTransactionCount: number;
+  onViewTransactions: (item: DebtReceivable) => void;
+}
+
+export const DebtCard: React.FC<DebtCardProps> = ({
+  item,
+  installments,
+  onEdit,
+  onDelete,
+  onRecordPayment,
+  onShowHistory,
+  linkedTransactionCount,
+  onViewTransactions,
+}) => {
+  const isDebt = item.type === 'debt';
+  const remaining = getRemaining(item);
+  const progress = (parseFloat(String(item.paid_amount)) / parseFloat(String(item.amount))) * 100;
+  const overdue = isOverdue(item, installments);
+  const schedule = allocateInstallments(installments, parseFloat(String(item.paid_amount)));
+  const open = schedule.filter((s) => s.remaining > 0);
+  const overdueCount = open.filter((s) => s.overdue).length;
+  const nextInstallment = open[0];
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  return (
+    <div
+      className={`p-4 rounded-lg border-2 ${
+        overdue
+          ? isDebt ? 'border-red-300 bg-red-50' : 'border-orange-300 bg-orange-50'
+          : 'border-gray-200 bg-gray-50'
+      }`}
+    >
+      <div className="flex items-start justify-between mb-2">
+        <div className="flex-1">
+          <p className="font-semibold text-gray-900">{item.party_name}</p>
+          <p className="text-sm text-gray-600">{item.description}</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onEdit(item)}
+            className="text-blue-600 hover:text-blue-800 transition"
+          >
+            <Edit className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => onDelete(item.id)}
+            className="text-red-600 hover:text-red-800 transition"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-600">Remaining:</span>
+          <span className={`font-bold ${isDebt ? 'text-red-600' : 'text-green-600'}`}>
+            {formatCurrency(remaining)}
+          </span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-2">
+          <div
+            className={`${isDebt ? 'bg-red-500' : 'bg-green-500'} h-2 rounded-full transition-all duration-300`}
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+        <div className="flex justify-between text-xs">
+          {nextInstallment ? (
+            <span
+              className={
+                overdue ? `${isDebt ? 'text-red-600' : 'text-orange-600'} font-semibold` : 'text-gray-500'
+              }
+            >
+              Next: {formatCurrency(nextInstallment.remaining)} on{' '}
+              {new Date(nextInstallment.installment.due_date).toLocaleDateString('id-ID')}
+              {overdueCount > 0 && ` (${overdueCount} overdue!)`}
+            </span>
+          ) : (
+            <span
+              className={
+                overdue ? `${isDebt ? 'text-red-600' : 'text-orange-600'} font-semibold` : 'text-gray-500'
+              }
+            >
+              Due: {new Date(item.due_date).toLocaleDateString('id-ID')}
+              {overdue && ' (Overdue!)'}
+            </span>
+          )}
+          <span className="text-gray-500">
+            {schedule.length > 0
+              ? `${open.length} of ${schedule.length} installments left`
+              : `${progress.toFixed(0)}% ${isDebt ? 'paid' : 'received'}`}
+          </span>
+        </div>
+      </div>
+      <div className="flex gap-2 mt-3 pt-3 border-t border-gray-200">
+        {item.status !== 'paid' && (
+          <button
+            onClick={() => onRecordPayment(item)}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium bg-blue-100 text-blue-700 hover:bg-blue-200 transition"
+          >
+            <Banknote className="w-4 h-4" />
+            Record payment
+          </button>
+        )}
+        <button
+          onClick={() => onShowHistory(item)}
+          className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-200 transition"
+        >
+          <History className="w-4 h-4" />
+          History
+        </button>
+        {linkedTransactionCount > 0 && (
+          <button
+            onClick={() => onViewTransactions(item)}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm font-medium text-gray-600 hover:bg-gray-200 transition ml-auto"
+          >
+            <ExternalLink className="w-4 h-4" />
+            {linkedTransactionCount} transaction{linkedTransactionCount > 1 ? 's' : ''}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
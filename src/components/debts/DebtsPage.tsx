@@ -1,11 +1,39 @@
 import React, { useEffect, useState } from 'react';
-import { Plus, Edit, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
-import { supabase, DebtReceivable } from '../../lib/supabase';
+import { Plus, AlertCircle, CheckCircle, Trash2 } from 'lucide-react';
+import { supabase, DebtInstallment, DebtPayment, DebtReceivable } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import {
+  InstallmentInterval,
+  buildInstallmentSchedule,
+  deleteDebtReceivable,
+  getDebtStatus,
+  getRemaining,
+  installmentIntervalLabels,
+  saveDebtReceivable,
+} from '../../lib/debts';
+import { NavigateHandler, NavigationParams } from '../../lib/navigation';
+import { DebtCard } from './DebtCard';
+import { PaymentForm } from './PaymentForm';
+import { PaymentHistory } from './PaymentHistory';
+
+type DebtWithPayments = DebtReceivable & {
+  debt_payments: Pick<DebtPayment, 'id' | 'transaction_id'>[];
+  debt_installments: DebtInstallment[];
+};
+
+interface InstallmentDraft {
+  due_date: string;
+  amount: string;
+}
+
+interface DebtsPageProps {
+  params: NavigationParams;
+  onNavigate: NavigateHandler;
+}
 
-export const DebtsPage: React.FC = () => {
+export const DebtsPage: React.FC<DebtsPageProps> = ({ params, onNavigate }) => {
   const { user } = useAuth();
-  const [items, setItems] = useState<DebtReceivable[]>([]);
+  const [items, setItems] = useState<DebtWithPayments[]>([]);
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
   const [editItem, setEditItem] = useState<DebtReceivable | undefined>();
@@ -13,11 +41,16 @@ export const DebtsPage: React.FC = () => {
     type: 'debt' as 'debt' | 'receivable',
     party_name: '',
     amount: '',
-    paid_amount: '',
     due_date: '',
     description: '',
   });
+  const [useInstallments, setUseInstallments] = useState(false);
+  const [installmentCount, setInstallmentCount] = useState('3');
+  const [installmentInterval, setInstallmentInterval] = useState<InstallmentInterval>('monthly');
+  const [installments, setInstallments] = useState<InstallmentDraft[]>([]);
   const [error, setError] = useState('');
+  const [paymentItem, setPaymentItem] = useState<DebtReceivable | undefined>();
+  const [historyItemId, setHistoryItemId] = useState<string | undefined>(params.debtReceivableId);
 
   useEffect(() => {
     if (user) {
@@ -29,7 +62,7 @@ export const DebtsPage: React.FC = () => {
     try {
       const { data, error } = await supabase
         .from('debts_receivables')
-        .select('*')
+        .select('*, debt_payments(id, transaction_id), debt_installments(*)')
         .order('due_date', { ascending: true });
 
       if (error) throw error;
@@ -46,39 +79,49 @@ export const DebtsPage: React.FC = () => {
     setError('');
 
     try {
-      const paidAmount = parseFloat(formData.paid_amount) || 0;
+      // paid_amount is maintained from the payment ledger; only the status
+      // needs refreshing when the total changes.
+      const paidAmount = editItem ? parseFloat(String(editItem.paid_amount)) : 0;
       const totalAmount = parseFloat(formData.amount);
-      let status: 'pending' | 'partial' | 'paid' = 'pending';
+      if (totalAmount < paidAmount) {
+        throw new Error('Total amount cannot be less than the amount already paid');
+      }
 
-      if (paidAmount >= totalAmount) {
-        status = 'paid';
-      } else if (paidAmount > 0) {
-        status = 'partial';
+      const schedule = useInstallments
+        ? installments.map((i) => ({ due_date: i.due_date, amount: parseFloat(i.amount) }))
+        : [];
+      if (useInstallments) {
+        if (schedule.length === 0) throw new Error('Generate the installment schedule first');
+        if (schedule.some((i) => !Number.isFinite(i.amount) || i.amount <= 0)) {
+          throw new Error('Every installment needs an amount greater than zero');
+        }
+        const scheduled = schedule.reduce((sum, i) => sum + i.amount, 0);
+        if (Math.abs(scheduled - totalAmount) >= 0.01) {
+          throw new Error(
+            `Installments add up to ${formatCurrency(scheduled)}, not the total of ${formatCurrency(totalAmount)}`
+          );
+        }
       }
 
       const itemData = {
-        user_id: user?.id,
         type: formData.type,
         party_name: formData.party_name,
         amount: totalAmount,
-        paid_amount: paidAmount,
-        due_date: formData.due_date,
+        // With a schedule, the item is due when its last installment is.
+        due_date: schedule.length > 0
+          ? schedule.map((i) => i.due_date).sort()[schedule.length - 1]
+          : formData.due_date,
         description: formData.description,
-        status,
-        updated_at: new Date().toISOString(),
+        status: getDebtStatus(totalAmount, paidAmount),
       };
 
-      if (editItem) {
-        const { error } = await supabase
-          .from('debts_receivables')
-          .update(itemData)
-          .eq('id', editItem.id);
-
-        if (error) throw error;
-      } else {
-        const { error } = await supabase.from('debts_receivables').insert([itemData]);
-        if (error) throw error;
-      }
+      // Only touch the schedule when there is one to save or one to remove.
+      const existingSchedule = items.find((i) => i.id === editItem?.id)?.debt_installments || [];
+      await saveDebtReceivable(
+        editItem?.id || null,
+        itemData,
+        schedule.length > 0 || existingSchedule.length > 0 ? schedule : null
+      );
 
       setShowForm(false);
       setEditItem(undefined);
@@ -86,36 +129,70 @@ export const DebtsPage: React.FC = () => {
         type: 'debt',
         party_name: '',
         amount: '',
-        paid_amount: '',
         due_date: '',
         description: '',
       });
+      resetSchedule();
       loadItems();
-    } catch (err: any) {
-      setError(err.message || 'Failed to save item');
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save item');
     }
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this item?')) return;
+    if (!confirm('Are you sure you want to delete this item and its payment history?')) return;
 
     try {
-      const { error } = await supabase.from('debts_receivables').delete().eq('id', id);
-      if (error) throw error;
+      await deleteDebtReceivable(id);
       loadItems();
     } catch (error) {
       console.error('Error deleting item:', error);
     }
   };
 
+  const resetSchedule = (schedule: DebtInstallment[] = []) => {
+    setUseInstallments(schedule.length > 0);
+    setInstallmentCount(String(schedule.length || 3));
+    setInstallmentInterval('monthly');
+    setInstallments(
+      [...schedule]
+        .sort((a, b) => a.sequence - b.sequence)
+        .map((i) => ({ due_date: i.due_date, amount: String(i.amount) }))
+    );
+  };
+
+  const generateSchedule = () => {
+    const total = parseFloat(formData.amount);
+    const count = parseInt(installmentCount, 10);
+    if (!total || !count || count < 1 || !formData.due_date) {
+      setError('Enter the total amount, number of installments and first due date');
+      return;
+    }
+
+    setError('');
+    setInstallments(
+      buildInstallmentSchedule(total, count, installmentInterval, formData.due_date).map((i) => ({
+        due_date: i.due_date,
+        amount: String(i.amount),
+      }))
+    );
+  };
+
+  const updateInstallment = (index: number, changes: Partial<InstallmentDraft>) => {
+    setInstallments(installments.map((i, position) => (position === index ? { ...i, ...changes } : i)));
+  };
+
   const handleEdit = (item: DebtReceivable) => {
+    const schedule = items.find((i) => i.id === item.id)?.debt_installments || [];
     setEditItem(item);
+    resetSchedule(schedule);
     setFormData({
       type: item.type,
       party_name: item.party_name,
       amount: String(item.amount),
-      paid_amount: String(item.paid_amount),
-      due_date: item.due_date,
+      due_date: schedule.length > 0
+        ? [...schedule].sort((a, b) => a.sequence - b.sequence)[0].due_date
+        : item.due_date,
       description: item.description || '',
     });
     setShowForm(true);
@@ -129,15 +206,12 @@ export const DebtsPage: React.FC = () => {
     }).format(amount);
   };
 
-  const isOverdue = (dueDate: string, status: string) => {
-    return new Date(dueDate) < new Date() && status !== 'paid';
-  };
-
   const debts = items.filter((i) => i.type === 'debt');
   const receivables = items.filter((i) => i.type === 'receivable');
 
-  const totalDebt = debts.reduce((sum, d) => sum + parseFloat(String(d.amount)) - parseFloat(String(d.paid_amount)), 0);
-  const totalReceivable = receivables.reduce((sum, r) => sum + parseFloat(String(r.amount)) - parseFloat(String(r.paid_amount)), 0);
+  const totalDebt = debts.reduce((sum, d) => sum + getRemaining(d), 0);
+  const totalReceivable = receivables.reduce((sum, r) => sum + getRemaining(r), 0);
+  const historyItem = items.find((i) => i.id === historyItemId);
 
   if (loading) {
     return (
@@ -161,10 +235,10 @@ export const DebtsPage: React.FC = () => {
               type: 'debt',
               party_name: '',
               amount: '',
-              paid_amount: '',
               due_date: '',
               description: '',
             });
+            resetSchedule();
             setShowForm(true);
           }}
           className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
@@ -200,60 +274,19 @@ export const DebtsPage: React.FC = () => {
             {debts.length === 0 ? (
               <p className="text-gray-500 text-center py-8">No debts recorded</p>
             ) : (
-              debts.map((debt) => {
-                const remaining = parseFloat(String(debt.amount)) - parseFloat(String(debt.paid_amount));
-                const progress = (parseFloat(String(debt.paid_amount)) / parseFloat(String(debt.amount))) * 100;
-                const overdue = isOverdue(debt.due_date, debt.status);
-
-                return (
-                  <div
-                    key={debt.id}
-                    className={`p-4 rounded-lg border-2 ${
-                      overdue ? 'border-red-300 bg-red-50' : 'border-gray-200 bg-gray-50'
-                    }`}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex-1">
-                        <p className="font-semibold text-gray-900">{debt.party_name}</p>
-                        <p className="text-sm text-gray-600">{debt.description}</p>
-                      </div>
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => handleEdit(debt)}
-                          className="text-blue-600 hover:text-blue-800 transition"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(debt.id)}
-                          className="text-red-600 hover:text-red-800 transition"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </div>
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-600">Remaining:</span>
-                        <span className="font-bold text-red-600">{formatCurrency(remaining)}</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div
-                          className="bg-red-500 h-2 rounded-full transition-all duration-300"
-                          style={{ width: `${progress}%` }}
-                        />
-                      </div>
-                      <div className="flex justify-between text-xs">
-                        <span className={overdue ? 'text-red-600 font-semibold' : 'text-gray-500'}>
-                          Due: {new Date(debt.due_date).toLocaleDateString('id-ID')}
-                          {overdue && ' (Overdue!)'}
-                        </span>
-                        <span className="text-gray-500">{progress.toFixed(0)}% paid</span>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })
+              debts.map((debt) => (
+                <DebtCard
+                  key={debt.id}
+                  item={debt}
+                  installments={debt.debt_installments}
+                  onEdit={handleEdit}
+                  onDelete={handleDelete}
+                  onRecordPayment={setPaymentItem}
+                  onShowHistory={(item) => setHistoryItemId(item.id)}
+                  linkedTransactionCount={debt.debt_payments.filter((p) => p.transaction_id).length}
+                  onViewTransactions={(item) => onNavigate('transactions', { debtReceivableId: item.id })}
+                />
+              ))
             )}
           </div>
         </div>
@@ -272,60 +305,19 @@ export const DebtsPage: React.FC = () => {
             {receivables.length === 0 ? (
               <p className="text-gray-500 text-center py-8">No receivables recorded</p>
             ) : (
-              receivables.map((receivable) => {
-                const remaining = parseFloat(String(receivable.amount)) - parseFloat(String(receivable.paid_amount));
-                const progress = (parseFloat(String(receivable.paid_amount)) / parseFloat(String(receivable.amount))) * 100;
-                const overdue = isOverdue(receivable.due_date, receivable.status);
-
-                return (
-                  <div
-                    key={receivable.id}
-                    className={`p-4 rounded-lg border-2 ${
-                      overdue ? 'border-orange-300 bg-orange-50' : 'border-gray-200 bg-gray-50'
-                    }`}
-                  >
-                    <div className="flex items-start justify-between mb-2">
-                      <div className="flex-1">
-                        <p className="font-semibold text-gray-900">{receivable.party_name}</p>
-                        <p className="text-sm text-gray-600">{receivable.description}</p>
-                      </div>
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => handleEdit(receivable)}
-                          className="text-blue-600 hover:text-blue-800 transition"
-                        >
-                          <Edit className="w-4 h-4" />
-                        </button>
-                        <button
-                          onClick={() => handleDelete(receivable.id)}
-                          className="text-red-600 hover:text-red-800 transition"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
-                      </div>
-                    </div>
-                    <div className="space-y-2">
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-600">Remaining:</span>
-                        <span className="font-bold text-green-600">{formatCurrency(remaining)}</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div
-                          className="bg-green-500 h-2 rounded-full transition-all duration-300"
-                          style={{ width: `${progress}%` }}
-                        />
-                      </div>
-                      <div className="flex justify-between text-xs">
-                        <span className={overdue ? 'text-orange-600 font-semibold' : 'text-gray-500'}>
-                          Due: {new Date(receivable.due_date).toLocaleDateString('id-ID')}
-                          {overdue && ' (Overdue!)'}
-                        </span>
-                        <span className="text-gray-500">{progress.toFixed(0)}% received</span>
-                      </div>
-                    </div>
-                  </div>
-                );
-              })
+              receivables.map((receivable) => (
+                <DebtCard
+                  key={receivable.id}
+                  item={receivable}
+                  installments={receivable.debt_installments}
+                  onEdit={handleEdit}
+                  onDelete={handleDelete}
+                  onRecordPayment={setPaymentItem}
+                  onShowHistory={(item) => setHistoryItemId(item.id)}
+                  linkedTransactionCount={receivable.debt_payments.filter((p) => p.transaction_id).length}
+                  onViewTransactions={(item) => onNavigate('transactions', { debtReceivableId: item.id })}
+                />
+              ))
             )}
           </div>
         </div>
@@ -333,7 +325,7 @@ export const DebtsPage: React.FC = () => {
 
       {showForm && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+          <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
             <div className="p-6 border-b">
               <h3 className="text-2xl font-bold text-gray-900">
                 {editItem ? 'Edit Item' : 'Add New Debt/Receivable'}
@@ -405,22 +397,37 @@ export const DebtsPage: React.FC = () => {
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Paid Amount (IDR)
-                </label>
-                <input
-                  type="number"
-                  value={formData.paid_amount}
-                  onChange={(e) => setFormData({ ...formData, paid_amount: e.target.value })}
-                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
-                  placeholder="0"
-                  min="0"
-                  step="0.01"
-                />
+                <label className="block text-sm font-medium text-gray-700 mb-2">Payment Schedule</label>
+                <div className="grid grid-cols-2 gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setUseInstallments(false)}
+                    className={`py-3 rounded-lg font-semibold transition ${
+                      !useInstallments
+                        ? 'bg-blue-500 text-white shadow-lg'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Single payment
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setUseInstallments(true)}
+                    className={`py-3 rounded-lg font-semibold transition ${
+                      useInstallments
+                        ? 'bg-blue-500 text-white shadow-lg'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    Installments
+                  </button>
+                </div>
               </div>
 
               <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Due Date</label>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {useInstallments ? 'First Due Date' : 'Due Date'}
+                </label>
                 <input
                   type="date"
                   value={formData.due_date}
@@ -430,6 +437,78 @@ export const DebtsPage: React.FC = () => {
                 />
               </div>
 
+              {useInstallments && (
+                <div className="space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Installments</label>
+                      <input
+                        type="number"
+                        value={installmentCount}
+                        onChange={(e) => setInstallmentCount(e.target.value)}
+                        className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                        min="1"
+                        max="120"
+                        step="1"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Interval</label>
+                      <select
+                        value={installmentInterval}
+                        onChange={(e) => setInstallmentInterval(e.target.value as InstallmentInterval)}
+                        className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                      >
+                        {Object.entries(installmentIntervalLabels).map(([value, label]) => (
+                          <option key={value} value={value}>
+                            {label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={generateSchedule}
+                    className="w-full px-4 py-2 rounded-lg border border-blue-300 text-blue-700 text-sm font-semibold hover:bg-blue-50 transition"
+                  >
+                    {installments.length > 0 ? 'Regenerate schedule' : 'Generate schedule'}
+                  </button>
+                  {installments.length > 0 && (
+                    <div className="space-y-2 max-h-60 overflow-y-auto">
+                      {installments.map((installment, index) => (
+                        <div key={index} className="flex items-center gap-2">
+                          <span className="w-6 text-sm text-gray-500 text-right">{index + 1}.</span>
+                          <input
+                            type="date"
+                            value={installment.due_date}
+                            onChange={(e) => updateInstallment(index, { due_date: e.target.value })}
+                            className="flex-1 px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-sm"
+                            required
+                          />
+                          <input
+                            type="number"
+                            value={installment.amount}
+                            onChange={(e) => updateInstallment(index, { amount: e.target.value })}
+                            className="flex-1 px-3 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition text-sm"
+                            required
+                            min="0.01"
+                            step="0.01"
+                          />
+                          <button
+                            type="button"
+                            onClick={() => setInstallments(installments.filter((_, position) => position !== index))}
+                            className="text-red-600 hover:text-red-800 transition"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Description
@@ -453,10 +532,10 @@ export const DebtsPage: React.FC = () => {
                       type: 'debt',
                       party_name: '',
                       amount: '',
-                      paid_amount: '',
                       due_date: '',
                       description: '',
                     });
+                    resetSchedule();
                   }}
                   className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
                 >
@@ -473,6 +552,22 @@ export const DebtsPage: React.FC = () => {
           </div>
         </div>
       )}
+
+      {paymentItem && (
+        <PaymentForm
+          item={paymentItem}
+          onClose={() => setPaymentItem(undefined)}
+          onSuccess={loadItems}
+        />
+      )}
+
+      {historyItem && (
+        <PaymentHistory
+          item={historyItem}
+          onClose={() => setHistoryItemId(undefined)}
+          onChange={loadItems}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,220 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase, Category, DebtPayment, DebtReceivable } from '../../lib/supabase';
+import { describePayment, getPaymentTransactionType, getRemaining } from '../../lib/debts';
+import { today } from '../../lib/dates';
+
+interface PaymentFormProps {
+  item: DebtReceivable;
+  editPayment?: DebtPayment;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export const PaymentForm: React.FC<PaymentFormProps> = ({ item, editPayment, onClose, onSuccess }) => {
+  // When editing, the payment's own amount is still available to reassign.
+  const available = getRemaining(item) + (editPayment ? parseFloat(String(editPayment.amount)) : 0);
+  const [amount, setAmount] = useState(editPayment ? String(editPayment.amount) : String(getRemaining(item)));
+  const [paymentDate, setPaymentDate] = useState(editPayment?.payment_date || today());
+  const [note, setNote] = useState(editPayment?.note || '');
+  const transactionType = getPaymentTransactionType(item);
+  const categoryStorageKey = `notanusa.paymentCategory.${transactionType}`;
+  const [postTransaction, setPostTransaction] = useState(editPayment ? !!editPayment.transaction_id : true);
+  const [categoryId, setCategoryId] = useState(
+    editPayment ? '' : localStorage.getItem(categoryStorageKey) || ''
+  );
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadCategories();
+  }, [transactionType]);
+
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('type', transactionType)
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+
+      if (editPayment?.transaction_id) {
+        const { data: linked, error: linkedError } = await supabase
+          .from('transactions')
+          .select('category_id')
+          .eq('id', editPayment.transaction_id)
+          .maybeSingle();
+
+        if (linkedError) throw linkedError;
+        setCategoryId(linked?.category_id || '');
+      }
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const paymentAmount = parseFloat(amount);
+      if (!(paymentAmount > 0)) {
+        throw new Error('Payment amount must be greater than zero');
+      }
+      if (paymentAmount > available) {
+        throw new Error(`Payment exceeds the remaining balance of ${formatCurrency(available)}`);
+      }
+
+      // Posts the transaction, saves the payment and updates the item's totals
+      // in one call, so a failure cannot leave them out of step.
+      const { error } = await supabase.rpc('save_debt_payment', {
+        p_payment_id: editPayment?.id || null,
+        p_debt_receivable_id: item.id,
+        p_amount: paymentAmount,
+        p_payment_date: paymentDate,
+        p_note: note || null,
+        p_post_transaction: postTransaction,
+        p_transaction_type: transactionType,
+        p_category_id: categoryId || null,
+        p_description: describePayment(item, note),
+      });
+
+      if (error) throw error;
+
+      if (postTransaction) {
+        localStorage.setItem(categoryStorageKey, categoryId);
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save payment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">
+              {editPayment ? 'Edit Payment' : 'Record Payment'}
+            </h2>
+            <p className="text-sm text-gray-600">
+              {item.party_name} · {formatCurrency(available)} {editPayment ? 'available' : 'remaining'}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Amount (IDR)</label>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              placeholder="0"
+              required
+              min="0"
+              step="0.01"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Payment Date</label>
+            <input
+              type="date"
+              value={paymentDate}
+              onChange={(e) => setPaymentDate(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Note</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition resize-none"
+              rows={2}
+              placeholder="e.g., Transfer BCA, cash at store..."
+            />
+          </div>
+
+          <div className="space-y-3">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={postTransaction}
+                onChange={(e) => setPostTransaction(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Post as {transactionType} transaction
+            </label>
+            {postTransaction && (
+              <select
+                value={categoryId}
+                onChange={(e) => setCategoryId(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              >
+                <option value="">No Category</option>
+                {categories.map((category) => (
+                  <option key={category.id} value={category.id}>
+                    {category.name}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : editPayment ? 'Update' : 'Record'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
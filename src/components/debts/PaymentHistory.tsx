@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { X, Edit, Trash2 } from 'lucide-react';
+import { supabase, DebtPayment, DebtReceivable } from '../../lib/supabase';
+import { deletePayment } from '../../lib/debts';
+import { PaymentForm } from './PaymentForm';
+
+interface PaymentHistoryProps {
+  item: DebtReceivable;
+  onClose: () => void;
+  onChange: () => void;
+}
+
+export const PaymentHistory: React.FC<PaymentHistoryProps> = ({ item, onClose, onChange }) => {
+  const [payments, setPayments] = useState<DebtPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editPayment, setEditPayment] = useState<DebtPayment | undefined>();
+
+  useEffect(() => {
+    loadPayments();
+  }, [item.id]);
+
+  const loadPayments = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('debt_payments')
+        .select('*')
+        .eq('debt_receivable_id', item.id)
+        .order('payment_date', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setPayments(data || []);
+    } catch (error) {
+      console.error('Error loading payments:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (payment: DebtPayment) => {
+    const message = payment.transaction_id
+      ? 'Are you sure you want to delete this payment and its posted transaction?'
+      : 'Are you sure you want to delete this payment?';
+    if (!confirm(message)) return;
+
+    try {
+      await deletePayment(payment);
+      loadPayments();
+      onChange();
+    } catch (error) {
+      console.error('Error deleting payment:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const total = parseFloat(String(item.amount));
+  let remaining = total;
+  const timeline = payments.map((payment) => {
+    remaining -= parseFloat(String(payment.amount));
+    return { payment, remaining };
+  });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Payment History</h2>
+            <p className="text-sm text-gray-600">
+              {item.party_name} · {item.type === 'debt' ? 'Debt' : 'Receivable'} of {formatCurrency(total)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <ol className="relative border-l-2 border-gray-200 ml-2 space-y-5">
+              <li className="ml-4">
+                <div className="absolute -left-[7px] w-3 h-3 rounded-full bg-gray-400" />
+                <p className="text-xs text-gray-500">
+                  {new Date(item.created_at).toLocaleDateString('id-ID')}
+                </p>
+                <p className="text-sm font-medium text-gray-900">Recorded</p>
+                <p className="text-sm text-gray-600">Remaining: {formatCurrency(total)}</p>
+              </li>
+              {timeline.map(({ payment, remaining }) => (
+                <li key={payment.id} className="ml-4">
+                  <div
+                    className={`absolute -left-[7px] w-3 h-3 rounded-full ${
+                      item.type === 'debt' ? 'bg-red-500' : 'bg-green-500'
+                    }`}
+                  />
+                  <div className="flex items-start justify-between">
+                    <div>
+                      <p className="text-xs text-gray-500">
+                        {new Date(payment.payment_date).toLocaleDateString('id-ID')}
+                      </p>
+                      <p className="text-sm font-bold text-gray-900">
+                        {formatCurrency(parseFloat(String(payment.amount)))}
+                      </p>
+                      {payment.note && <p className="text-sm text-gray-600">{payment.note}</p>}
+                      {payment.transaction_id && (
+                        <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800">
+                          posted as {item.type === 'debt' ? 'expense' : 'income'}
+                        </span>
+                      )}
+                      <p className="text-sm text-gray-600">Remaining: {formatCurrency(remaining)}</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => setEditPayment(payment)}
+                        className="text-blue-600 hover:text-blue-800 transition"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(payment)}
+                        className="text-red-600 hover:text-red-800 transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+              {timeline.length === 0 && (
+                <li className="ml-4 text-sm text-gray-500">No payments recorded yet</li>
+              )}
+            </ol>
+          )}
+        </div>
+      </div>
+
+      {editPayment && (
+        <PaymentForm
+          item={item}
+          editPayment={editPayment}
+          onClose={() => setEditPayment(undefined)}
+          onSuccess={() => {
+            loadPayments();
+            onChange();
+          }}
+        />
+      )}
+    </div>
+  );
+};
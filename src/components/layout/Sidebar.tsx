@@ -6,6 +6,9 @@ import {
   FileText,
   PieChart,
   CreditCard,
+  Wallet,
+  Repeat,
+  Target,
   LogOut,
   Menu,
   X
@@ -26,6 +29,9 @@ export const Sidebar: React.FC<SidebarProps> = ({ currentPage, onNavigate, isOpe
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'transactions', label: 'Transactions', icon: ArrowLeftRight },
     { id: 'categories', label: 'Categories', icon: Tags },
+    { id: 'cashflow', label: 'Cash Flow', icon: Wallet },
+    { id: 'recurring', label: 'Recurring', icon: Repeat },
+    { id: 'budgets', label: 'Budgets', icon: Target },
     { id: 'debts', label: 'Debts & Receivables', icon: CreditCard },
     { id: 'reports', label: 'Reports', icon: FileText },
     { id: 'analytics', label: 'Analytics', icon: PieChart },
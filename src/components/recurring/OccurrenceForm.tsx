@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Occurrence } from '../../lib/recurring';
+
+interface OccurrenceFormProps {
+  occurrence: Occurrence;
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+export const OccurrenceForm: React.FC<OccurrenceFormProps> = ({ occurrence, onClose, onSuccess }) => {
+  const { user } = useAuth();
+  const [amount, setAmount] = useState(String(occurrence.amount));
+  const [description, setDescription] = useState(occurrence.description || '');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.from('recurring_occurrence_overrides').upsert(
+        {
+          user_id: user?.id,
+          recurring_id: occurrence.template.id,
+          occurrence_date: occurrence.date,
+          skip: false,
+          amount: parseFloat(amount),
+          description,
+        },
+        { onConflict: 'recurring_id,occurrence_date' }
+      );
+
+      if (error) throw error;
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save occurrence');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!occurrence.override) return;
+    setLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from('recurring_occurrence_overrides')
+        .delete()
+        .eq('id', occurrence.override.id);
+
+      if (error) throw error;
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to reset occurrence');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Edit Occurrence</h2>
+            <p className="text-sm text-gray-600">
+              {new Date(occurrence.date).toLocaleDateString('id-ID')} only
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Amount (IDR)</label>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              placeholder="0"
+              required
+              min="0"
+              step="0.01"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition resize-none"
+              rows={3}
+            />
+          </div>
+
+          {occurrence.override && (
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={loading}
+              className="text-sm text-blue-600 hover:text-blue-800 transition disabled:opacity-50"
+            >
+              Reset to the recurring amount and description
+            </button>
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : 'Update'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
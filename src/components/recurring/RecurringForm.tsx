@@ -0,0 +1,250 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { supabase, Category, RecurringTransaction } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { today } from '../../lib/dates';
+import { frequencyLabels, materializeDueOccurrences } from '../../lib/recurring';
+
+interface RecurringFormProps {
+  onClose: () => void;
+  onSuccess: () => void;
+  editTemplate?: RecurringTransaction;
+}
+
+export const RecurringForm: React.FC<RecurringFormProps> = ({ onClose, onSuccess, editTemplate }) => {
+  const { user } = useAuth();
+  const [type, setType] = useState<'income' | 'expense'>(editTemplate?.type || 'expense');
+  const [amount, setAmount] = useState(editTemplate ? String(editTemplate.amount) : '');
+  const [categoryId, setCategoryId] = useState(editTemplate?.category_id || '');
+  const [description, setDescription] = useState(editTemplate?.description || '');
+  const [frequency, setFrequency] = useState<RecurringTransaction['frequency']>(
+    editTemplate?.frequency || 'monthly'
+  );
+  const [startDate, setStartDate] = useState(editTemplate?.start_date || today());
+  const [endDate, setEndDate] = useState(editTemplate?.end_date || '');
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadCategories();
+  }, [type]);
+
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .eq('type', type)
+        .order('name');
+
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    try {
+      if (endDate && endDate < startDate) {
+        throw new Error('End date cannot be before the start date');
+      }
+
+      const templateData = {
+        user_id: user?.id,
+        type,
+        amount: parseFloat(amount),
+        category_id: categoryId || null,
+        description,
+        frequency,
+        start_date: startDate,
+        end_date: endDate || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      if (editTemplate) {
+        // Posting resumes after the last posted date, so a schedule change
+        // applies from there on and never backfills earlier occurrences.
+        const { error } = await supabase
+          .from('recurring_transactions')
+          .update(templateData)
+          .eq('id', editTemplate.id);
+
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('recurring_transactions').insert([templateData]);
+        if (error) throw error;
+      }
+
+      // A start date in the past posts the missed occurrences right away.
+      if (user) await materializeDueOccurrences(user.id);
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save recurring transaction');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-900">
+            {editTemplate ? 'Edit Recurring Transaction' : 'New Recurring Transaction'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                type="button"
+                onClick={() => setType('income')}
+                className={`py-3 rounded-lg font-semibold transition ${
+                  type === 'income'
+                    ? 'bg-green-500 text-white shadow-lg'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                Income
+              </button>
+              <button
+                type="button"
+                onClick={() => setType('expense')}
+                className={`py-3 rounded-lg font-semibold transition ${
+                  type === 'expense'
+                    ? 'bg-red-500 text-white shadow-lg'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                Expense
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Amount (IDR)</label>
+            <input
+              type="number"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              placeholder="0"
+              required
+              min="0"
+              step="0.01"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+            <select
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            >
+              <option value="">No Category</option>
+              {categories.map((category) => (
+                <option key={category.id} value={category.id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Repeats</label>
+            <select
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as RecurringTransaction['frequency'])}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            >
+              {Object.entries(frequencyLabels).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
+              <input
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
+              <input
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                min={startDate}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            {editTemplate
+              ? 'Changes apply to occurrences that have not been posted yet.'
+              : 'Occurrences from the start date up to today are posted immediately. Leave the end date empty to repeat indefinitely.'}
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition resize-none"
+              rows={3}
+              placeholder="e.g. Shop rent"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={loading}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {loading ? 'Saving...' : editTemplate ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, Pause, Play, Repeat, SkipForward, RotateCcw } from 'lucide-react';
+import { supabase, Category, RecurringTransaction } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { addDays, today } from '../../lib/dates';
+import {
+  RecurringWithOverrides,
+  Occurrence,
+  frequencyLabels,
+  getNextOccurrenceDate,
+  getUpcomingOccurrences,
+  materializeDueOccurrences,
+} from '../../lib/recurring';
+import { RecurringForm } from './RecurringForm';
+import { OccurrenceForm } from './OccurrenceForm';
+
+type RecurringRow = RecurringWithOverrides & {
+  categories: Pick<Category, 'name'> | null;
+};
+
+const UPCOMING_DAYS = 30;
+
+export const RecurringPage: React.FC = () => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<RecurringRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editTemplate, setEditTemplate] = useState<RecurringTransaction | undefined>();
+  const [editOccurrence, setEditOccurrence] = useState<Occurrence | undefined>();
+
+  useEffect(() => {
+    if (user) {
+      loadTemplates();
+    }
+  }, [user]);
+
+  const loadTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('recurring_transactions')
+        .select('*, categories(name), recurring_occurrence_overrides(*)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setTemplates(data || []);
+    } catch (error) {
+      console.error('Error loading recurring transactions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this recurring transaction? Transactions already posted from it are kept.')) return;
+
+    try {
+      const { error } = await supabase.from('recurring_transactions').delete().eq('id', id);
+      if (error) throw error;
+      loadTemplates();
+    } catch (error) {
+      console.error('Error deleting recurring transaction:', error);
+    }
+  };
+
+  const handleToggleActive = async (template: RecurringTransaction) => {
+    try {
+      // Resuming does not back-fill the paused stretch; posting picks up
+      // again from today.
+      const yesterday = addDays(today(), -1);
+      const lastMaterialized =
+        !template.active && (!template.last_materialized_date || template.last_materialized_date < yesterday)
+          ? yesterday
+          : template.last_materialized_date;
+
+      const { error } = await supabase
+        .from('recurring_transactions')
+        .update({
+          active: !template.active,
+          last_materialized_date: lastMaterialized,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', template.id);
+
+      if (error) throw error;
+      if (!template.active && user) await materializeDueOccurrences(user.id);
+      loadTemplates();
+    } catch (error) {
+      console.error('Error updating recurring transaction:', error);
+    }
+  };
+
+  const handleToggleSkip = async (occurrence: Occurrence) => {
+    try {
+      const { override } = occurrence;
+      if (override?.skip && override.amount === null && override.description === null) {
+        const { error } = await supabase.from('recurring_occurrence_overrides').delete().eq('id', override.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('recurring_occurrence_overrides').upsert(
+          {
+            user_id: user?.id,
+            recurring_id: occurrence.template.id,
+            occurrence_date: occurrence.date,
+            skip: !override?.skip,
+            amount: override?.amount ?? null,
+            description: override?.description ?? null,
+          },
+          { onConflict: 'recurring_id,occurrence_date' }
+        );
+        if (error) throw error;
+      }
+      loadTemplates();
+    } catch (error) {
+      console.error('Error updating occurrence:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const tomorrow = addDays(today(), 1);
+  const upcoming = getUpcomingOccurrences(templates, tomorrow, addDays(today(), UPCOMING_DAYS));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 mb-2">Recurring Transactions</h1>
+          <p className="text-gray-600">Rent, salaries and other entries that repeat on a schedule</p>
+        </div>
+        <button
+          onClick={() => {
+            setEditTemplate(undefined);
+            setShowForm(true);
+          }}
+          className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
+        >
+          <Plus className="w-5 h-5" />
+          New Recurring
+        </button>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Description
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Category
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Repeats
+                </th>
+                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Next
+                </th>
+                <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-4 text-center text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                  Actions
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {templates.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
+                    No recurring transactions yet
+                  </td>
+                </tr>
+              ) : (
+                templates.map((template) => {
+                  const next = template.active ? getNextOccurrenceDate(template, tomorrow) : undefined;
+
+                  return (
+                    <tr key={template.id} className={`hover:bg-gray-50 transition ${template.active ? '' : 'opacity-60'}`}>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {template.description || '-'}
+                        {!template.active && (
+                          <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-700">
+                            Paused
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {template.categories?.name || <span className="text-gray-400">Uncategorized</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {frequencyLabels[template.frequency]}
+                        <p className="text-xs text-gray-500">
+                          {new Date(template.start_date).toLocaleDateString('id-ID')}
+                          {template.end_date
+                            ? ` – ${new Date(template.end_date).toLocaleDateString('id-ID')}`
+                            : ' onwards'}
+                        </p>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {next ? new Date(next).toLocaleDateString('id-ID') : '-'}
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-sm font-semibold text-right ${
+                          template.type === 'income' ? 'text-green-600' : 'text-red-600'
+                        }`}
+                      >
+                        {template.type === 'income' ? '+' : '-'}
+                        {formatCurrency(parseFloat(String(template.amount)))}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-center">
+                        <div className="flex items-center justify-center gap-2">
+                          <button
+                            onClick={() => handleToggleActive(template)}
+                            title={template.active ? 'Pause' : 'Resume'}
+                            className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                          >
+                            {template.active ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                          </button>
+                          <button
+                            onClick={() => {
+                              setEditTemplate(template);
+                              setShowForm(true);
+                            }}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(template.id)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-md p-6">
+        <h2 className="text-xl font-bold text-gray-900 mb-4 flex items-center gap-2">
+          <div className="p-2 bg-blue-100 rounded-lg">
+            <Repeat className="w-5 h-5 text-blue-600" />
+          </div>
+          Upcoming in the next {UPCOMING_DAYS} days
+        </h2>
+        {upcoming.length === 0 ? (
+          <p className="text-gray-500 text-center py-8">Nothing scheduled</p>
+        ) : (
+          <div className="space-y-2">
+            {upcoming.map((occurrence) => {
+              const skipped = !!occurrence.override?.skip;
+              const edited = occurrence.override?.amount != null || occurrence.override?.description != null;
+
+              return (
+                <div
+                  key={`${occurrence.template.id}-${occurrence.date}`}
+                  className={`flex items-center justify-between p-4 bg-gray-50 rounded-lg ${skipped ? 'opacity-60' : ''}`}
+                >
+                  <div>
+                    <p className={`font-medium text-gray-900 ${skipped ? 'line-through' : ''}`}>
+                      {occurrence.description || 'No description'}
+                      {skipped && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-200 text-gray-700">
+                          Skipped
+                        </span>
+                      )}
+                      {!skipped && edited && (
+                        <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                          Edited
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {new Date(occurrence.date).toLocaleDateString('id-ID')} ·{' '}
+                      {frequencyLabels[occurrence.template.frequency]}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span
+                      className={`font-semibold ${
+                        occurrence.template.type === 'income' ? 'text-green-600' : 'text-red-600'
+                      }`}
+                    >
+                      {occurrence.template.type === 'income' ? '+' : '-'}
+                      {formatCurrency(occurrence.amount)}
+                    </span>
+                    <button
+                      onClick={() => handleToggleSkip(occurrence)}
+                      title={skipped ? 'Restore' : 'Skip this occurrence'}
+                      className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition"
+                    >
+                      {skipped ? <RotateCcw className="w-4 h-4" /> : <SkipForward className="w-4 h-4" />}
+                    </button>
+                    <button
+                      onClick={() => setEditOccurrence(occurrence)}
+                      disabled={skipped}
+                      title="Edit this occurrence"
+                      className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition disabled:opacity-50"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <RecurringForm
+          onClose={() => {
+            setShowForm(false);
+            setEditTemplate(undefined);
+          }}
+          onSuccess={loadTemplates}
+          editTemplate={editTemplate}
+        />
+      )}
+
+      {editOccurrence && (
+        <OccurrenceForm
+          occurrence={editOccurrence}
+          onClose={() => setEditOccurrence(undefined)}
+          onSuccess={loadTemplates}
+        />
+      )}
+    </div>
+  );
+};
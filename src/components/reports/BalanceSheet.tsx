@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { Scale, ChevronDown, ChevronRight, ExternalLink, Printer } from 'lucide-react';
+import { supabase, CashFlow } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { NavigateHandler } from '../../lib/navigation';
+import { TransactionRow, fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { buildCashFlowStatement, getStatementFetchRange } from '../../lib/cashFlowStatement';
+import { OutstandingItem, fetchOutstandingItems } from '../../lib/debts';
+import { PdfRow, exportReportPdf } from '../../lib/pdfExport';
+
+interface BalanceSheetData {
+  cash: number;
+  openingPeriod: CashFlow | null;
+  transactionCount: number;
+  receivables: OutstandingItem[];
+  debts: OutstandingItem[];
+}
+
+type BalanceSheetLine = 'cash' | 'receivables' | 'debts';
+
+interface BalanceSheetProps {
+  asOf: string;
+  onNavigate: NavigateHandler;
+}
+
+export const BalanceSheet: React.FC<BalanceSheetProps> = ({ asOf, onNavigate }) => {
+  const { profile } = useAuth();
+  const [data, setData] = useState<BalanceSheetData | null>(null);
+  const [expanded, setExpanded] = useState<Set<BalanceSheetLine>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  useEffect(() => {
+    loadBalanceSheet();
+  }, [asOf]);
+
+  const loadBalanceSheet = async () => {
+    setLoading(true);
+    setLoadError('');
+    try {
+      const [periodsResult, { receivables, debts }] = await Promise.all([
+        supabase.from('cash_flow').select('*'),
+        fetchOutstandingItems(asOf),
+      ]);
+
+      if (periodsResult.error) throw periodsResult.error;
+
+      const periods = (periodsResult.data || []) as CashFlow[];
+
+      // Cash at the end of `asOf` is the closing balance of a one-day statement.
+      const range = { start: asOf, end: asOf };
+      const fetchRange = getStatementFetchRange(periods, range);
+      const transactions = await fetchTransactionsBetween<TransactionRow>(
+        fetchRange.start,
+        asOf,
+        '*, categories(name), debt_payments(debt_receivable_id, debts_receivables(type, party_name))'
+      );
+      const statement = buildCashFlowStatement(range, periods, transactions);
+
+      setData({
+        cash: statement.closingBalance,
+        openingPeriod: statement.openingPeriod,
+        transactionCount: transactions.length,
+        receivables,
+        debts,
+      });
+    } catch (error) {
+      console.error('Error loading balance sheet:', error);
+      setLoadError('Failed to load the balance sheet.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggle = (line: BalanceSheetLine) => {
+    const next = new Set(expanded);
+    if (next.has(line)) {
+      next.delete(line);
+    } else {
+      next.add(line);
+    }
+    setExpanded(next);
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  if (!loading && loadError) {
+    return (
+      <div className="flex items-center justify-between gap-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+        <span>{loadError}</span>
+        <button
+          onClick={loadBalanceSheet}
+          className="px-4 py-2 rounded-lg border border-gray-300 bg-white text-gray-700 text-sm font-semibold hover:bg-gray-50 transition"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (loading || !data) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const totalReceivables = data.receivables.reduce((sum, r) => sum + r.outstanding, 0);
+  const totalDebts = data.debts.reduce((sum, d) => sum + d.outstanding, 0);
+  const totalAssets = data.cash + totalReceivables;
+  const equity = totalAssets - totalDebts;
+
+  // The PDF always carries the lines behind each figure.
+  const handleExportPdf = async () => {
+    const itemRows = (items: OutstandingItem[]): PdfRow[] =>
+      items.map(({ item, outstanding }) => ({
+        cells: [`${item.party_name} (due ${formatDate(item.due_date)})`, formatCurrency(outstanding)],
+        indent: true,
+      }));
+
+    try {
+      await exportReportPdf(
+        {
+          title: 'Balance Sheet (Neraca)',
+          period: `As of ${formatDate(asOf)}`,
+          fileName: `balance-sheet-${asOf}.pdf`,
+          sections: [
+            {
+              columns: ['', 'Amount'],
+              rows: [
+                { cells: ['Assets', ''], style: 'heading' },
+                { cells: ['Cash', formatCurrency(data.cash)] },
+                { cells: ['Receivables (Piutang)', formatCurrency(totalReceivables)] },
+                ...itemRows(data.receivables),
+                { cells: ['Total Assets', formatCurrency(totalAssets)], style: 'subtotal' },
+                { cells: ['Liabilities', ''], style: 'heading' },
+                { cells: ['Debts (Utang)', formatCurrency(totalDebts)] },
+                ...itemRows(data.debts),
+                { cells: ['Total Liabilities', formatCurrency(totalDebts)], style: 'subtotal' },
+                { cells: ["Owner's Equity (Modal)", formatCurrency(equity)], style: 'total' },
+              ],
+              note: "Owner's equity is total assets minus total liabilities.",
+            },
+          ],
+        },
+        profile
+      );
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+    }
+  };
+
+  const renderLine = (line: BalanceSheetLine, label: string, amount: number) => (
+    <tr className="text-gray-700 hover:bg-gray-50 cursor-pointer" onClick={() => toggle(line)}>
+      <td className="px-6 py-3 pl-6 text-sm">
+        <span className="flex items-center gap-2">
+          {expanded.has(line) ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+          {label}
+        </span>
+      </td>
+      <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(amount)}</td>
+    </tr>
+  );
+
+  const renderItems = (items: OutstandingItem[]) =>
+    items.length === 0 ? (
+      <tr>
+        <td colSpan={2} className="px-6 py-2 pl-14 text-sm text-gray-400">
+          Nothing outstanding
+        </td>
+      </tr>
+    ) : (
+      items.map(({ item, paid, outstanding }) => (
+        <tr key={item.id} className="text-gray-600">
+          <td className="px-6 py-2 pl-14 text-sm">
+            <button
+              onClick={() => onNavigate('debts', { debtReceivableId: item.id })}
+              className="flex items-center gap-1 text-left hover:text-blue-600 transition"
+            >
+              {item.party_name}
+              <ExternalLink className="w-3 h-3" />
+            </button>
+            <span className="block text-xs text-gray-500">
+              {formatCurrency(parseFloat(String(item.amount)))} total · {formatCurrency(paid)} paid · due{' '}
+              {formatDate(item.due_date)}
+            </span>
+          </td>
+          <td className="px-6 py-2 text-sm text-right whitespace-nowrap">{formatCurrency(outstanding)}</td>
+        </tr>
+      ))
+    );
+
+  const renderTotal = (label: string, amount: number, emphasis: 'subtotal' | 'total') => (
+    <tr
+      className={
+        emphasis === 'total'
+          ? 'bg-blue-50 font-bold text-gray-900 border-t-2 border-gray-300'
+          : 'font-semibold text-gray-900 border-t border-gray-200'
+      }
+    >
+      <td className="px-6 py-3 text-sm">{label}</td>
+      <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(amount)}</td>
+    </tr>
+  );
+
+  const renderHeading = (title: string) => (
+    <tr className="bg-gray-50">
+      <td colSpan={2} className="px-6 py-3 text-xs font-semibold text-gray-700 uppercase tracking-wider">
+        {title}
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Scale className="w-5 h-5 text-gray-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Balance Sheet (Neraca)</h3>
+          <p className="text-sm text-gray-500">As of {formatDate(asOf)}</p>
+        </div>
+        <button
+          onClick={handleExportPdf}
+          className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-semibold hover:bg-gray-50 transition"
+        >
+          <Printer className="w-4 h-4" />
+          Export PDF
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <tbody>
+            {renderHeading('Assets')}
+            {renderLine('cash', 'Cash', data.cash)}
+            {expanded.has('cash') && (
+              <tr className="text-gray-600">
+                <td className="px-6 py-2 pl-14 text-sm">
+                  {data.openingPeriod
+                    ? `Opening balance ${formatCurrency(parseFloat(String(data.openingPeriod.opening_balance)))} on ${formatDate(data.openingPeriod.period_start)}, plus ${data.transactionCount} transactions since`
+                    : `${data.transactionCount} transactions up to this date; no cash period sets an opening balance`}
+                  <button
+                    onClick={() =>
+                      onNavigate('transactions', { dateFrom: data.openingPeriod?.period_start, dateTo: asOf })
+                    }
+                    className="ml-2 inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 transition"
+                  >
+                    View transactions
+                    <ExternalLink className="w-3 h-3" />
+                  </button>
+                </td>
+                <td />
+              </tr>
+            )}
+            {renderLine('receivables', 'Receivables (Piutang)', totalReceivables)}
+            {expanded.has('receivables') && renderItems(data.receivables)}
+            {renderTotal('Total Assets', totalAssets, 'subtotal')}
+
+            {renderHeading('Liabilities')}
+            {renderLine('debts', 'Debts (Utang)', totalDebts)}
+            {expanded.has('debts') && renderItems(data.debts)}
+            {renderTotal('Total Liabilities', totalDebts, 'subtotal')}
+
+            {renderTotal("Owner's Equity (Modal)", equity, 'total')}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-4 text-xs text-gray-500">
+        Owner's equity is total assets minus total liabilities. Click a line to see the figures behind it.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Target, Printer } from 'lucide-react';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { DateRange } from '../../lib/dates';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { PdfRow, exportReportPdf } from '../../lib/pdfExport';
+import {
+  BudgetLine,
+  BudgetTransaction,
+  BudgetWithCategory,
+  buildBudgetLines,
+  getBudgetStatus,
+} from '../../lib/budgets';
+
+interface BudgetVsActualProps {
+  period: DateRange;
+}
+
+const PRORATION_NOTE =
+  'Planned amounts are each monthly limit prorated to the days of the period covered. Rolled-over amounts are not included.';
+
+export const BudgetVsActual: React.FC<BudgetVsActualProps> = ({ period }) => {
+  const { profile } = useAuth();
+  const [lines, setLines] = useState<BudgetLine[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadBudgets();
+  }, [period.start, period.end]);
+
+  const loadBudgets = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.from('budgets').select('*, categories(name)');
+      if (error) throw error;
+
+      const transactions = await fetchTransactionsBetween<BudgetTransaction>(
+        period.start,
+        period.end,
+        'id, type, amount, category_id, transaction_date'
+      );
+      setLines(buildBudgetLines((data || []) as BudgetWithCategory[], transactions, period));
+    } catch (error) {
+      console.error('Error loading budget vs actual:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  const formatUsed = (line: Pick<BudgetLine, 'planned' | 'actual'>) =>
+    line.planned > 0 ? `${Math.round((line.actual / line.planned) * 100)}%` : '-';
+
+  const totals = {
+    planned: lines.reduce((sum, l) => sum + l.planned, 0),
+    actual: lines.reduce((sum, l) => sum + l.actual, 0),
+  };
+
+  const handleExportPdf = async () => {
+    const row = (name: string, line: Pick<BudgetLine, 'planned' | 'actual'>): string[] => [
+      name,
+      formatCurrency(line.planned),
+      formatCurrency(line.actual),
+      formatCurrency(line.planned - line.actual),
+      formatUsed(line),
+    ];
+
+    try {
+      await exportReportPdf(
+        {
+          title: 'Budget vs Actual',
+          period: `${formatDate(period.start)} - ${formatDate(period.end)}`,
+          fileName: `budget-vs-actual-${period.start}-${period.end}.pdf`,
+          sections: [
+            {
+              columns: ['Category', 'Planned', 'Actual', 'Variance', 'Used'],
+              rows: [
+                ...lines.map((line): PdfRow => ({ cells: row(line.budget.categories?.name || 'Deleted category', line) })),
+                { cells: row('Total', totals), style: 'total' },
+              ],
+              note: PRORATION_NOTE,
+            },
+          ],
+        },
+        profile
+      );
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <Target className="w-5 h-5 text-gray-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Budget vs Actual</h3>
+          <p className="text-sm text-gray-500">
+            {formatDate(period.start)} – {formatDate(period.end)}
+          </p>
+        </div>
+        <button
+          onClick={handleExportPdf}
+          disabled={lines.length === 0}
+          className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Printer className="w-4 h-4" />
+          Export PDF
+        </button>
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="text-gray-500 text-center py-8">No budgets set up yet</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Category
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Planned
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Actual
+                  </th>
+                  <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Variance
+                  </th>
+                  <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                    Used
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map((line) => {
+                  const status = getBudgetStatus({ available: line.planned, spent: line.actual });
+                  const progress = line.planned > 0 ? (line.actual / line.planned) * 100 : 0;
+
+                  return (
+                    <tr key={line.budget.id} className="text-gray-700">
+                      <td className="px-6 py-3 text-sm text-gray-900">
+                        {line.budget.categories?.name || 'Deleted category'}
+                      </td>
+                      <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(line.planned)}</td>
+                      <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(line.actual)}</td>
+                      <td
+                        className={`px-6 py-3 text-sm text-right font-semibold whitespace-nowrap ${
+                          line.actual > line.planned ? 'text-red-600' : 'text-green-600'
+                        }`}
+                      >
+                        {formatCurrency(line.planned - line.actual)}
+                      </td>
+                      <td className="px-6 py-3 text-sm">
+                        <div className="flex items-center gap-3">
+                          <div className="w-24 bg-gray-200 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${
+                                status === 'over' ? 'bg-red-500' : status === 'near' ? 'bg-yellow-500' : 'bg-green-500'
+                              }`}
+                              style={{ width: `${Math.min(progress, 100)}%` }}
+                            />
+                          </div>
+                          <span className="whitespace-nowrap">{formatUsed(line)}</span>
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                <tr className="bg-blue-50 font-bold text-gray-900 border-t-2 border-gray-300">
+                  <td className="px-6 py-3 text-sm">Total</td>
+                  <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(totals.planned)}</td>
+                  <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(totals.actual)}</td>
+                  <td
+                    className={`px-6 py-3 text-sm text-right whitespace-nowrap ${
+                      totals.actual > totals.planned ? 'text-red-600' : 'text-green-600'
+                    }`}
+                  >
+                    {formatCurrency(totals.planned - totals.actual)}
+                  </td>
+                  <td className="px-6 py-3 text-sm">{formatUsed(totals)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-4">{PRORATION_NOTE}</p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,308 @@
+import React, { useEffect, useState } from 'react';
+import { Wallet, AlertTriangle, CheckCircle, Printer } from 'lucide-react';
+import { supabase, CashFlow, DebtPayment, DebtReceivable } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { DateRange } from '../../lib/dates';
+import { PdfRow, exportReportPdf } from '../../lib/pdfExport';
+import { TransactionRow, fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { fetchAllPages } from '../../lib/paging';
+import {
+  CashFlowStatement as Statement,
+  FlowLine,
+  buildCashFlowStatement,
+  getStatementFetchRange,
+  hasGap,
+} from '../../lib/cashFlowStatement';
+
+type UnpostedPayment = Pick<DebtPayment, 'amount'> & {
+  debts_receivables: Pick<DebtReceivable, 'type'> | null;
+};
+
+interface CashFlowStatementProps {
+  period: DateRange;
+}
+
+export const CashFlowStatement: React.FC<CashFlowStatementProps> = ({ period }) => {
+  const { profile } = useAuth();
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [unposted, setUnposted] = useState<UnpostedPayment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState('');
+
+  useEffect(() => {
+    loadStatement();
+  }, [period.start, period.end]);
+
+  const loadStatement = async () => {
+    setLoading(true);
+    setLoadError('');
+    try {
+      const { data: periods, error } = await supabase.from('cash_flow').select('*');
+      if (error) throw error;
+
+      const fetchRange = getStatementFetchRange((periods || []) as CashFlow[], period);
+      const transactions = await fetchTransactionsBetween<TransactionRow>(
+        fetchRange.start,
+        fetchRange.end,
+        '*, categories(name), debt_payments(debt_receivable_id, debts_receivables(type, party_name))'
+      );
+
+      // Payments recorded without posting a transaction never touched the
+      // cash ledger; they are listed separately rather than counted.
+      const payments = await fetchAllPages<UnpostedPayment>((from, to) =>
+        supabase
+          .from('debt_payments')
+          .select('amount, debts_receivables(type)')
+          .is('transaction_id', null)
+          .gte('payment_date', period.start)
+          .lte('payment_date', period.end)
+          .order('id')
+          .range(from, to)
+          // A payment belongs to one item, so PostgREST embeds an object; the
+          // untyped client would infer an array.
+          .overrideTypes<UnpostedPayment[], { merge: false }>()
+      );
+
+      setStatement(buildCashFlowStatement(period, (periods || []) as CashFlow[], transactions));
+      setUnposted(payments);
+    } catch (error) {
+      console.error('Error loading cash flow statement:', error);
+      setLoadError('Failed to load the cash flow statement.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString('id-ID');
+
+  const renderLines = (title: string, lines: FlowLine[], negative: boolean) => (
+    <>
+      <tr className="bg-gray-50">
+        <td colSpan={2} className="px-6 py-3 text-xs font-semibold text-gray-700 uppercase tracking-wider">
+          {title}
+        </td>
+      </tr>
+      {lines.length === 0 ? (
+        <tr>
+          <td colSpan={2} className="px-6 py-3 pl-10 text-sm text-gray-400">
+            None
+          </td>
+        </tr>
+      ) : (
+        lines.map((line) => (
+          <tr key={line.key} className="text-gray-700">
+            <td className="px-6 py-3 pl-10 text-sm">{line.name}</td>
+            <td className="px-6 py-3 text-sm text-right whitespace-nowrap">
+              {negative ? `(${formatCurrency(line.amount)})` : formatCurrency(line.amount)}
+            </td>
+          </tr>
+        ))
+      )}
+    </>
+  );
+
+  const renderTotal = (label: string, amount: number, emphasis: 'subtotal' | 'total') => (
+    <tr
+      className={
+        emphasis === 'total'
+          ? 'bg-blue-50 font-bold text-gray-900 border-t-2 border-gray-300'
+          : 'font-semibold text-gray-900 border-t border-gray-200'
+      }
+    >
+      <td className="px-6 py-3 text-sm">{label}</td>
+      <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{formatCurrency(amount)}</td>
+    </tr>
+  );
+
+  if (!loading && loadError) {
+    return (
+      <div className="flex items-center justify-between gap-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+        <span>{loadError}</span>
+        <button
+          onClick={loadStatement}
+          className="px-4 py-2 rounded-lg border border-gray-300 bg-white text-gray-700 text-sm font-semibold hover:bg-gray-50 transition"
+        >
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (loading || !statement) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+      </div>
+    );
+  }
+
+  const unpostedCollections = unposted
+    .filter((p) => p.debts_receivables?.type === 'receivable')
+    .reduce((sum, p) => sum + parseFloat(String(p.amount)), 0);
+  const unpostedRepayments = unposted
+    .filter((p) => p.debts_receivables?.type === 'debt')
+    .reduce((sum, p) => sum + parseFloat(String(p.amount)), 0);
+
+  const unpostedNote =
+    unpostedCollections > 0 || unpostedRepayments > 0
+      ? `Not included above: ${formatCurrency(unpostedCollections)} collected and ${formatCurrency(unpostedRepayments)} repaid through debt payments that were not posted as transactions.`
+      : undefined;
+
+  const handleExportPdf = async () => {
+    const lineRows = (title: string, lines: FlowLine[], negative: boolean): PdfRow[] => [
+      { cells: [title, ''], style: 'heading' },
+      ...(lines.length === 0
+        ? [{ cells: ['None', ''], indent: true }]
+        : lines.map((line) => ({
+            cells: [line.name, negative ? `(${formatCurrency(line.amount)})` : formatCurrency(line.amount)],
+            indent: true,
+          }))),
+    ];
+    const gaps = statement.checks.filter(hasGap);
+
+    try {
+      await exportReportPdf(
+        {
+          title: 'Cash Flow Statement (Laporan Arus Kas)',
+          period: `${formatDate(period.start)} - ${formatDate(period.end)}`,
+          fileName: `cash-flow-${period.start}-${period.end}.pdf`,
+          sections: [
+            {
+              columns: ['', 'Amount'],
+              rows: [
+                { cells: ['Opening Balance', formatCurrency(statement.openingBalance)], style: 'subtotal' },
+                ...lineRows('Cash In', statement.cashIn, false),
+                ...lineRows('Receivable Collections', statement.collections, false),
+                { cells: ['Total Cash In', formatCurrency(statement.totalIn)], style: 'subtotal' },
+                ...lineRows('Cash Out', statement.cashOut, true),
+                ...lineRows('Debt Repayments', statement.repayments, true),
+                { cells: ['Total Cash Out', formatCurrency(statement.totalOut)], style: 'subtotal' },
+                { cells: ['Net Cash Flow', formatCurrency(statement.totalIn - statement.totalOut)], style: 'subtotal' },
+                { cells: ['Closing Balance', formatCurrency(statement.closingBalance)], style: 'total' },
+              ],
+              note: unpostedNote,
+            },
+            ...(gaps.length > 0
+              ? [
+                  {
+                    title: 'Opening balance gaps',
+                    columns: ['Cash period opened', 'Recorded', 'Computed', 'Difference'],
+                    rows: gaps.map((check) => ({
+                      cells: [
+                        formatDate(check.period.period_start),
+                        formatCurrency(parseFloat(String(check.period.opening_balance))),
+                        formatCurrency(check.computed),
+                        formatCurrency(check.difference),
+                      ],
+                    })),
+                  },
+                ]
+              : []),
+          ],
+        },
+        profile
+      );
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <Wallet className="w-5 h-5 text-gray-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Cash Flow Statement (Laporan Arus Kas)</h3>
+          <p className="text-sm text-gray-500">
+            {formatDate(period.start)} – {formatDate(period.end)}
+          </p>
+        </div>
+        <button
+          onClick={handleExportPdf}
+          className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-semibold hover:bg-gray-50 transition"
+        >
+          <Printer className="w-4 h-4" />
+          Export PDF
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <tbody>
+            <tr className="font-semibold text-gray-900">
+              <td className="px-6 py-3 text-sm">
+                Opening Balance
+                <span className="block text-xs font-normal text-gray-500">
+                  {statement.openingPeriod
+                    ? `Carried forward from the cash period opened ${formatDate(statement.openingPeriod.period_start)}`
+                    : 'No cash period before this date; computed from all earlier transactions'}
+                </span>
+              </td>
+              <td className="px-6 py-3 text-sm text-right whitespace-nowrap">
+                {formatCurrency(statement.openingBalance)}
+              </td>
+            </tr>
+            {renderLines('Cash In', statement.cashIn, false)}
+            {renderLines('Receivable Collections', statement.collections, false)}
+            {renderTotal('Total Cash In', statement.totalIn, 'subtotal')}
+            {renderLines('Cash Out', statement.cashOut, true)}
+            {renderLines('Debt Repayments', statement.repayments, true)}
+            {renderTotal('Total Cash Out', statement.totalOut, 'subtotal')}
+            {renderTotal('Net Cash Flow', statement.totalIn - statement.totalOut, 'subtotal')}
+            {renderTotal('Closing Balance', statement.closingBalance, 'total')}
+          </tbody>
+        </table>
+      </div>
+
+      {unpostedNote && <p className="text-sm text-gray-600 bg-gray-50 rounded-lg p-4">{unpostedNote}</p>}
+
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-3">Reconciliation with recorded opening balances</h4>
+        {statement.checks.length === 0 ? (
+          <p className="text-sm text-gray-500">No cash period has been opened after this range started.</p>
+        ) : (
+          <div className="space-y-2">
+            {statement.checks.map((check) =>
+              hasGap(check) ? (
+                <div
+                  key={check.period.id}
+                  className="flex items-start gap-3 p-4 rounded-lg border-2 border-yellow-200 bg-yellow-50 text-sm"
+                >
+                  <AlertTriangle className="w-5 h-5 text-yellow-600 flex-shrink-0" />
+                  <div className="text-yellow-800">
+                    <p className="font-semibold">
+                      Gap of {formatCurrency(Math.abs(check.difference))} at the period opened{' '}
+                      {formatDate(check.period.period_start)}
+                    </p>
+                    <p>
+                      Recorded opening balance {formatCurrency(parseFloat(String(check.period.opening_balance)))}, but
+                      the transactions before it add up to {formatCurrency(check.computed)}. Cash may be missing
+                      from the ledger, or the opening balance was entered incorrectly.
+                    </p>
+                  </div>
+                </div>
+              ) : (
+                <div
+                  key={check.period.id}
+                  className="flex items-center gap-3 p-4 rounded-lg bg-green-50 text-sm text-green-800"
+                >
+                  <CheckCircle className="w-5 h-5 text-green-600 flex-shrink-0" />
+                  The period opened {formatDate(check.period.period_start)} matches the computed balance of{' '}
+                  {formatCurrency(check.computed)}
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,140 @@
+import React from 'react';
+import { GitCompare } from 'lucide-react';
+import { DateRange } from '../../lib/dates';
+import { Delta, PeriodComparison as Comparison } from '../../lib/periodComparison';
+
+interface PeriodComparisonProps {
+  comparison: Comparison;
+  period: DateRange;
+  comparisonPeriod: DateRange;
+}
+
+export const PeriodComparison: React.FC<PeriodComparisonProps> = ({ comparison, period, comparisonPeriod }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatRange = (range: DateRange) =>
+    `${new Date(range.start).toLocaleDateString('id-ID')} – ${new Date(range.end).toLocaleDateString('id-ID')}`;
+
+  const formatPercent = (value: number | null) =>
+    value === null ? '-' : `${value > 0 ? '+' : ''}${value.toLocaleString('id-ID', { maximumFractionDigits: 1 })}%`;
+
+  // Whether a rise is good news depends on the line: more income is, more
+  // expense is not, and a count is neither.
+  const changeClass = (change: number, higherIsBetter: boolean | null) => {
+    if (change === 0 || higherIsBetter === null) return 'text-gray-700';
+    return change > 0 === higherIsBetter ? 'text-green-600' : 'text-red-600';
+  };
+
+  const renderCells = (delta: Delta, format: (value: number) => string, higherIsBetter: boolean | null) => (
+    <>
+      <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{format(delta.current)}</td>
+      <td className="px-6 py-3 text-sm text-right whitespace-nowrap">{format(delta.comparison)}</td>
+      <td className={`px-6 py-3 text-sm text-right font-semibold whitespace-nowrap ${changeClass(delta.change, higherIsBetter)}`}>
+        {delta.change > 0 ? '+' : ''}
+        {format(delta.change)}
+      </td>
+      <td className={`px-6 py-3 text-sm text-right whitespace-nowrap ${changeClass(delta.change, higherIsBetter)}`}>
+        {formatPercent(delta.percentChange)}
+      </td>
+    </>
+  );
+
+  const renderHead = (firstColumn: string) => (
+    <thead className="bg-gray-50">
+      <tr>
+        <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">{firstColumn}</th>
+        <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+          This Period
+          <span className="block font-normal normal-case tracking-normal text-gray-500">{formatRange(period)}</span>
+        </th>
+        <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+          Comparison
+          <span className="block font-normal normal-case tracking-normal text-gray-500">
+            {formatRange(comparisonPeriod)}
+          </span>
+        </th>
+        <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Change</th>
+        <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">Change %</th>
+      </tr>
+    </thead>
+  );
+
+  const formatCount = (value: number) => value.toLocaleString('id-ID');
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6 space-y-6">
+      <div className="flex items-center gap-2">
+        <GitCompare className="w-5 h-5 text-gray-600" />
+        <h3 className="text-lg font-semibold text-gray-900">Period Comparison</h3>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          {renderHead('Metric')}
+          <tbody className="divide-y divide-gray-200">
+            <tr className="text-gray-700">
+              <td className="px-6 py-3 text-sm font-medium">Total Income</td>
+              {renderCells(comparison.totalIncome, formatCurrency, true)}
+            </tr>
+            <tr className="text-gray-700">
+              <td className="px-6 py-3 text-sm font-medium">Total Expense</td>
+              {renderCells(comparison.totalExpense, formatCurrency, false)}
+            </tr>
+            <tr className="text-gray-700">
+              <td className="px-6 py-3 text-sm font-medium">Profit/Loss</td>
+              {renderCells(comparison.profitLoss, formatCurrency, true)}
+            </tr>
+            <tr className="text-gray-700">
+              <td className="px-6 py-3 text-sm font-medium">Transactions</td>
+              {renderCells(comparison.transactionCount, formatCount, null)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          {renderHead('Category')}
+          <tbody className="divide-y divide-gray-200">
+            {comparison.categories.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  No transactions in either period
+                </td>
+              </tr>
+            ) : (
+              comparison.categories.map((line) => (
+                <tr key={line.key} className={line.onlyIn ? 'bg-yellow-50 text-gray-700' : 'text-gray-700'}>
+                  <td className="px-6 py-3 text-sm">
+                    <span className="flex flex-wrap items-center gap-2">
+                      <span
+                        className={`px-2 py-0.5 rounded-full text-xs font-semibold ${
+                          line.type === 'income' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                        }`}
+                      >
+                        {line.type}
+                      </span>
+                      {line.name}
+                      {line.onlyIn && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800">
+                          {line.onlyIn === 'current' ? 'New this period' : 'Only in comparison'}
+                        </span>
+                      )}
+                    </span>
+                  </td>
+                  {renderCells(line, formatCurrency, line.type === 'income')}
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React from 'react';
+import { FileText, Printer } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { DateRange } from '../../lib/dates';
+import { PdfRow, exportReportPdf } from '../../lib/pdfExport';
+import {
+  ProfitLossStatement as Statement,
+  StatementAmounts,
+  StatementSection,
+  percentOfRevenue,
+} from '../../lib/profitLoss';
+
+interface ProfitLossStatementProps {
+  statement: Statement;
+  period: DateRange;
+  previousPeriod: DateRange;
+}
+
+export const ProfitLossStatement: React.FC<ProfitLossStatementProps> = ({ statement, period, previousPeriod }) => {
+  const { profile } = useAuth();
+  const revenue = statement.revenue.total;
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatPercent = (value: number | null) =>
+    value === null ? '-' : `${value.toLocaleString('id-ID', { maximumFractionDigits: 1 })}%`;
+
+  const formatRange = (range: DateRange) =>
+    `${new Date(range.start).toLocaleDateString('id-ID')} – ${new Date(range.end).toLocaleDateString('id-ID')}`;
+
+  // Costs are shown in parentheses, as on a printed statement.
+  const renderAmount = (amount: number, negative: boolean) =>
+    negative && amount !== 0 ? `(${formatCurrency(amount)})` : formatCurrency(amount);
+
+  const renderRow = (
+    label: string,
+    amounts: StatementAmounts,
+    options: { negative?: boolean; emphasis?: 'subtotal' | 'total'; indent?: boolean } = {}
+  ) => {
+    const rowClass =
+      options.emphasis === 'total'
+        ? 'bg-blue-50 font-bold text-gray-900 border-t-2 border-gray-300'
+        : options.emphasis === 'subtotal'
+          ? 'font-semibold text-gray-900 border-t border-gray-200'
+          : 'text-gray-700';
+
+    return (
+      <tr key={label} className={rowClass}>
+        <td className={`px-6 py-3 text-sm ${options.indent ? 'pl-10' : ''}`}>{label}</td>
+        <td className="px-6 py-3 text-sm text-right whitespace-nowrap">
+          {renderAmount(amounts.current, !!options.negative)}
+        </td>
+        <td className="px-6 py-3 text-sm text-right text-gray-500 whitespace-nowrap">
+          {formatPercent(percentOfRevenue(amounts.current, revenue.current))}
+        </td>
+        <td className="px-6 py-3 text-sm text-right whitespace-nowrap">
+          {renderAmount(amounts.previous, !!options.negative)}
+        </td>
+        <td className="px-6 py-3 text-sm text-right text-gray-500 whitespace-nowrap">
+          {formatPercent(percentOfRevenue(amounts.previous, revenue.previous))}
+        </td>
+      </tr>
+    );
+  };
+
+  const handleExportPdf = async () => {
+    const amountCells = (amounts: StatementAmounts, negative = false) => [
+      renderAmount(amounts.current, negative),
+      formatPercent(percentOfRevenue(amounts.current, revenue.current)),
+      renderAmount(amounts.previous, negative),
+      formatPercent(percentOfRevenue(amounts.previous, revenue.previous)),
+    ];
+    const sectionRows = (title: string, section: StatementSection, totalLabel: string, negative: boolean): PdfRow[] => [
+      { cells: [title, '', '', '', ''], style: 'heading' },
+      ...(section.lines.length === 0
+        ? [{ cells: ['None', '', '', '', ''], indent: true }]
+        : section.lines.map((line) => ({ cells: [line.name, ...amountCells(line, negative)], indent: true }))),
+      { cells: [totalLabel, ...amountCells(section.total, negative)], style: 'subtotal' },
+    ];
+
+    try {
+      await exportReportPdf(
+        {
+          title: 'Profit & Loss Statement (Laba Rugi)',
+          period: formatRange(period),
+          fileName: `profit-loss-${period.start}-${period.end}.pdf`,
+          sections: [
+            {
+              columns: ['Account', 'This Period', '% of Revenue', `Previous (${formatRange(previousPeriod)})`, '% of Revenue'],
+              rows: [
+                ...sectionRows('Revenue', statement.revenue, 'Total Revenue', false),
+                ...sectionRows('Cost of Sales', statement.costOfSales, 'Total Cost of Sales', true),
+                { cells: ['Gross Profit', ...amountCells(statement.grossProfit)], style: 'total' },
+                ...sectionRows('Operating Expenses', statement.operatingExpenses, 'Total Operating Expenses', true),
+                { cells: ['Net Profit', ...amountCells(statement.netProfit)], style: 'total' },
+              ],
+            },
+          ],
+        },
+        profile
+      );
+    } catch (error) {
+      console.error('Error exporting PDF:', error);
+    }
+  };
+
+  const renderSection = (title: string, section: StatementSection, totalLabel: string, negative: boolean) => (
+    <>
+      <tr key={title} className="bg-gray-50">
+        <td colSpan={5} className="px-6 py-3 text-xs font-semibold text-gray-700 uppercase tracking-wider">
+          {title}
+        </td>
+      </tr>
+      {section.lines.length === 0 ? (
+        <tr key={`${title}-empty`}>
+          <td colSpan={5} className="px-6 py-3 pl-10 text-sm text-gray-400">
+            None
+          </td>
+        </tr>
+      ) : (
+        section.lines.map((line) =>
+          renderRow(line.name, line, { negative, indent: true })
+        )
+      )}
+      {renderRow(totalLabel, section.total, { negative, emphasis: 'subtotal' })}
+    </>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-md p-6">
+      <div className="flex items-center gap-2 mb-6">
+        <FileText className="w-5 h-5 text-gray-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Profit & Loss Statement (Laba Rugi)</h3>
+          <p className="text-sm text-gray-500">{formatRange(period)}</p>
+        </div>
+        <button
+          onClick={handleExportPdf}
+          className="ml-auto flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm font-semibold hover:bg-gray-50 transition"
+        >
+          <Printer className="w-4 h-4" />
+          Export PDF
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead>
+            <tr className="border-b-2 border-gray-300">
+              <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                Account
+              </th>
+              <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                This Period
+              </th>
+              <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                % of Revenue
+              </th>
+              <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                Previous Period
+                <span className="block font-normal normal-case tracking-normal text-gray-500">
+                  {formatRange(previousPeriod)}
+                </span>
+              </th>
+              <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
+                % of Revenue
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {renderSection('Revenue', statement.revenue, 'Total Revenue', false)}
+            {renderSection('Cost of Sales', statement.costOfSales, 'Total Cost of Sales', true)}
+            {renderRow('Gross Profit', statement.grossProfit, { emphasis: 'total' })}
+            {renderSection('Operating Expenses', statement.operatingExpenses, 'Total Operating Expenses', true)}
+            {renderRow('Net Profit', statement.netProfit, { emphasis: 'total' })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-4 text-xs text-gray-500">
+        Expense categories marked as cost of sales on the Categories page are deducted before gross profit.
+      </p>
+    </div>
+  );
+};
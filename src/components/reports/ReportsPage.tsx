@@ -1,101 +1,96 @@
 import React, { useEffect, useState } from 'react';
-import { FileText, Download, Calendar } from 'lucide-react';
-import { supabase } from '../../lib/supabase';
+import { Download, Calendar, FileSpreadsheet } from 'lucide-react';
+import { Category, Transaction } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { downloadCsv } from '../../lib/csv';
+import { DateRange, getPresetRange, getPreviousPeriod } from '../../lib/dates';
+import { fetchOutstandingItems } from '../../lib/debts';
+import { NavigateHandler } from '../../lib/navigation';
+import { fetchTransactionsBetween } from '../../lib/transactionQuery';
+import { ProfitLossStatement as Statement, buildProfitLoss } from '../../lib/profitLoss';
+import { exportWorkbook } from '../../lib/xlsxExport';
+import {
+  CompareMode,
+  PeriodComparison as Comparison,
+  PeriodSummary,
+  compareModeLabels,
+  comparePeriods,
+  getComparisonRange,
+  summarizePeriod,
+} from '../../lib/periodComparison';
+import { DateRangePicker } from '../common/DateRangePicker';
+import { ProfitLossStatement } from './ProfitLossStatement';
+import { PeriodComparison } from './PeriodComparison';
+import { CashFlowStatement } from './CashFlowStatement';
+import { BalanceSheet } from './BalanceSheet';
+import { BudgetVsActual } from './BudgetVsActual';
 
-export const ReportsPage: React.FC = () => {
+type StatementType = 'profitLoss' | 'cashFlow' | 'balanceSheet' | 'budget';
+
+const statementTabs: { id: StatementType; label: string }[] = [
+  { id: 'profitLoss', label: 'Profit & Loss' },
+  { id: 'cashFlow', label: 'Cash Flow' },
+  { id: 'balanceSheet', label: 'Balance Sheet' },
+  { id: 'budget', label: 'Budget vs Actual' },
+];
+
+type ReportTransaction = Transaction & {
+  categories: Pick<Category, 'name' | 'type' | 'is_cost_of_sales'> | null;
+};
+
+interface ReportsPageProps {
+  onNavigate: NavigateHandler;
+}
+
+export const ReportsPage: React.FC<ReportsPageProps> = ({ onNavigate }) => {
   const { user } = useAuth();
-  const [period, setPeriod] = useState<'week' | 'month' | 'year'>('month');
-  const [startDate, setStartDate] = useState('');
-  const [endDate, setEndDate] = useState('');
-  const [reportData, setReportData] = useState({
-    totalIncome: 0,
-    totalExpense: 0,
-    profitLoss: 0,
-    transactionCount: 0,
-    categoryBreakdown: [] as { name: string; type: string; total: number }[],
-  });
+  const [range, setRange] = useState<DateRange>(() => getPresetRange('thisMonth'));
+  const { start: startDate, end: endDate } = range;
+  const [reportData, setReportData] = useState<PeriodSummary>(() => summarizePeriod([]));
+  const [compareMode, setCompareMode] = useState<CompareMode>('none');
+  const [customCompare, setCustomCompare] = useState<DateRange>({ start: '', end: '' });
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [comparisonPeriod, setComparisonPeriod] = useState<DateRange | null>(null);
+  const [statementType, setStatementType] = useState<StatementType>('profitLoss');
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [previousPeriod, setPreviousPeriod] = useState<DateRange | null>(null);
+  const [periodTransactions, setPeriodTransactions] = useState<ReportTransaction[]>([]);
   const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
-  useEffect(() => {
-    setDateRange(period);
-  }, [period]);
+  const compareRange = getComparisonRange(compareMode, range, customCompare);
 
   useEffect(() => {
-    if (startDate && endDate && user) {
+    if (startDate && endDate && startDate <= endDate && user) {
       generateReport();
     }
-  }, [startDate, endDate, user]);
-
-  const setDateRange = (periodType: 'week' | 'month' | 'year') => {
-    const today = new Date();
-    const end = today.toISOString().split('T')[0];
-    let start = new Date();
-
-    switch (periodType) {
-      case 'week':
-        start.setDate(today.getDate() - 7);
-        break;
-      case 'month':
-        start.setMonth(today.getMonth() - 1);
-        break;
-      case 'year':
-        start.setFullYear(today.getFullYear() - 1);
-        break;
-    }
-
-    setStartDate(start.toISOString().split('T')[0]);
-    setEndDate(end);
-  };
+  }, [startDate, endDate, compareRange?.start, compareRange?.end, user]);
 
   const generateReport = async () => {
     setLoading(true);
     try {
-      const { data: transactions, error } = await supabase
-        .from('transactions')
-        .select('*, categories(name, type)')
-        .gte('transaction_date', startDate)
-        .lte('transaction_date', endDate);
-
-      if (error) throw error;
-
-      const income = transactions
-        ?.filter((t) => t.type === 'income')
-        .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0) || 0;
-
-      const expense = transactions
-        ?.filter((t) => t.type === 'expense')
-        .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0) || 0;
+      // One read covers this period, the previous one the statement shows,
+      // and the comparison period.
+      const previous = getPreviousPeriod({ start: startDate, end: endDate });
+      const fetchStart = compareRange && compareRange.start < previous.start ? compareRange.start : previous.start;
+      const fetchEnd = compareRange && compareRange.end > endDate ? compareRange.end : endDate;
+      const allTransactions = await fetchTransactionsBetween<ReportTransaction>(
+        fetchStart,
+        fetchEnd,
+        '*, categories(name, type, is_cost_of_sales)'
+      );
+      const between = (r: DateRange) =>
+        allTransactions.filter((t) => t.transaction_date >= r.start && t.transaction_date <= r.end);
+      const transactions = between(range);
+      const previousTransactions = between(previous);
 
-      const categoryMap = new Map<string, { type: string; total: number }>();
-      transactions?.forEach((t) => {
-        const categoryName = t.categories?.name || 'Uncategorized';
-        const existing = categoryMap.get(categoryName);
-        if (existing) {
-          existing.total += parseFloat(String(t.amount));
-        } else {
-          categoryMap.set(categoryName, {
-            type: t.type,
-            total: parseFloat(String(t.amount)),
-          });
-        }
-      });
-
-      const breakdown = Array.from(categoryMap.entries())
-        .map(([name, data]) => ({
-          name,
-          type: data.type,
-          total: data.total,
-        }))
-        .sort((a, b) => b.total - a.total);
-
-      setReportData({
-        totalIncome: income,
-        totalExpense: expense,
-        profitLoss: income - expense,
-        transactionCount: transactions?.length || 0,
-        categoryBreakdown: breakdown,
-      });
+      const summary = summarizePeriod(transactions);
+      setReportData(summary);
+      setComparison(compareRange ? comparePeriods(summary, summarizePeriod(between(compareRange))) : null);
+      setComparisonPeriod(compareRange);
+      setStatement(buildProfitLoss(transactions, previousTransactions));
+      setPeriodTransactions(transactions);
+      setPreviousPeriod(previous);
     } catch (error) {
       console.error('Error generating report:', error);
     } finally {
@@ -112,31 +107,46 @@ export const ReportsPage: React.FC = () => {
   };
 
   const exportToCSV = () => {
-    const headers = ['Category', 'Type', 'Amount'];
-    const rows = reportData.categoryBreakdown.map((item) => [
-      item.name,
-      item.type,
-      item.total,
-    ]);
-
-    const csvContent = [
-      `Financial Report (${startDate} to ${endDate})`,
-      '',
-      `Total Income,${reportData.totalIncome}`,
-      `Total Expense,${reportData.totalExpense}`,
-      `Profit/Loss,${reportData.profitLoss}`,
-      `Total Transactions,${reportData.transactionCount}`,
-      '',
-      headers.join(','),
-      ...rows.map((row) => row.join(',')),
-    ].join('\n');
+    downloadCsv(
+      [
+        [`Financial Report (${startDate} to ${endDate})`],
+        [],
+        ['Total Income', reportData.totalIncome],
+        ['Total Expense', reportData.totalExpense],
+        ['Profit/Loss', reportData.profitLoss],
+        ['Total Transactions', reportData.transactionCount],
+        [],
+        ['Category', 'Type', 'Amount'],
+        ...reportData.categoryBreakdown.map((item) => [item.name, item.type, item.total]),
+      ],
+      `financial-report-${startDate}-${endDate}.csv`
+    );
+  };
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `financial-report-${startDate}-${endDate}.csv`;
-    a.click();
+  const exportToExcel = async () => {
+    setExporting(true);
+    try {
+      const { receivables, debts } = await fetchOutstandingItems(endDate);
+      await exportWorkbook({
+        title: 'Financial Report',
+        period: { start: startDate, end: endDate },
+        summary: [
+          { label: 'Total Income', value: reportData.totalIncome, kind: 'amount' },
+          { label: 'Total Expense', value: reportData.totalExpense, kind: 'amount' },
+          { label: 'Profit/Loss', value: reportData.profitLoss, kind: 'amount' },
+          { label: 'Total Transactions', value: reportData.transactionCount, kind: 'count' },
+        ],
+        transactions: periodTransactions,
+        receivables,
+        debts,
+        outstandingAsOf: endDate,
+        fileName: `financial-report-${startDate}-${endDate}.xlsx`,
+      });
+    } catch (error) {
+      console.error('Error exporting report:', error);
+    } finally {
+      setExporting(false);
+    }
   };
 
   return (
@@ -146,14 +156,24 @@ export const ReportsPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Financial Reports</h1>
           <p className="text-gray-600">Generate comprehensive financial reports</p>
         </div>
-        <button
-          onClick={exportToCSV}
-          disabled={reportData.transactionCount === 0}
-          className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg font-semibold hover:from-green-600 hover:to-green-700 transition shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          <Download className="w-5 h-5" />
-          Export CSV
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={exportToExcel}
+            disabled={reportData.transactionCount === 0 || exporting}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg border border-gray-300 bg-white text-gray-700 font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet className="w-5 h-5" />
+            {exporting ? 'Exporting...' : 'Export Excel'}
+          </button>
+          <button
+            onClick={exportToCSV}
+            disabled={reportData.transactionCount === 0}
+            className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-green-500 to-green-600 text-white rounded-lg font-semibold hover:from-green-600 hover:to-green-700 transition shadow-lg hover:shadow-xl disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-5 h-5" />
+            Export CSV
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-md p-6">
@@ -162,58 +182,45 @@ export const ReportsPage: React.FC = () => {
           <h3 className="text-lg font-semibold text-gray-900">Report Period</h3>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-          <button
-            onClick={() => setPeriod('week')}
-            className={`py-3 rounded-lg font-semibold transition ${
-              period === 'week'
-                ? 'bg-blue-500 text-white shadow-lg'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
-          >
-            Last Week
-          </button>
-          <button
-            onClick={() => setPeriod('month')}
-            className={`py-3 rounded-lg font-semibold transition ${
-              period === 'month'
-                ? 'bg-blue-500 text-white shadow-lg'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
-          >
-            Last Month
-          </button>
-          <button
-            onClick={() => setPeriod('year')}
-            className={`py-3 rounded-lg font-semibold transition ${
-              period === 'year'
-                ? 'bg-blue-500 text-white shadow-lg'
-                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
-            }`}
-          >
-            Last Year
-          </button>
-        </div>
+        <DateRangePicker value={range} onChange={setRange} />
 
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">Start Date</label>
-            <input
-              type="date"
-              value={startDate}
-              onChange={(e) => setStartDate(e.target.value)}
-              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
-            />
-          </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6 pt-6 border-t border-gray-200">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">End Date</label>
-            <input
-              type="date"
-              value={endDate}
-              onChange={(e) => setEndDate(e.target.value)}
-              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
-            />
+            <label className="block text-sm font-medium text-gray-700 mb-2">Compare With</label>
+            <select
+              value={compareMode}
+              onChange={(e) => setCompareMode(e.target.value as CompareMode)}
+              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            >
+              {(Object.keys(compareModeLabels) as CompareMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {compareModeLabels[mode]}
+                </option>
+              ))}
+            </select>
           </div>
+          {compareMode === 'custom' && (
+            <>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Comparison Start</label>
+                <input
+                  type="date"
+                  value={customCompare.start}
+                  onChange={(e) => setCustomCompare({ ...customCompare, start: e.target.value })}
+                  className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Comparison End</label>
+                <input
+                  type="date"
+                  value={customCompare.end}
+                  onChange={(e) => setCustomCompare({ ...customCompare, end: e.target.value })}
+                  className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+                />
+              </div>
+            </>
+          )}
         </div>
       </div>
 
@@ -248,56 +255,36 @@ export const ReportsPage: React.FC = () => {
             </div>
           </div>
 
-          <div className="bg-white rounded-xl shadow-md p-6">
-            <div className="flex items-center gap-2 mb-6">
-              <FileText className="w-5 h-5 text-gray-600" />
-              <h3 className="text-lg font-semibold text-gray-900">Category Breakdown</h3>
-            </div>
-
-            {reportData.categoryBreakdown.length === 0 ? (
-              <p className="text-gray-500 text-center py-8">No data available for this period</p>
-            ) : (
-              <div className="space-y-4">
-                {reportData.categoryBreakdown.map((item, index) => {
-                  const percentage =
-                    item.type === 'income'
-                      ? (item.total / reportData.totalIncome) * 100
-                      : (item.total / reportData.totalExpense) * 100;
+          {comparison && comparisonPeriod && (
+            <PeriodComparison comparison={comparison} period={range} comparisonPeriod={comparisonPeriod} />
+          )}
 
-                  return (
-                    <div key={index} className="space-y-2">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-2">
-                          <span
-                            className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                              item.type === 'income'
-                                ? 'bg-green-100 text-green-800'
-                                : 'bg-red-100 text-red-800'
-                            }`}
-                          >
-                            {item.type}
-                          </span>
-                          <span className="font-medium text-gray-900">{item.name}</span>
-                        </div>
-                        <span className="font-bold text-gray-900">{formatCurrency(item.total)}</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div
-                          className={`h-2 rounded-full transition-all duration-300 ${
-                            item.type === 'income' ? 'bg-green-500' : 'bg-red-500'
-                          }`}
-                          style={{ width: `${percentage}%` }}
-                        />
-                      </div>
-                      <div className="text-sm text-gray-500 text-right">
-                        {percentage.toFixed(1)}% of total {item.type}
-                      </div>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
+          <div className="flex flex-wrap gap-2">
+            {statementTabs.map((tab) => (
+              <button
+                key={tab.id}
+                onClick={() => setStatementType(tab.id)}
+                className={`px-4 py-2 rounded-lg font-semibold transition ${
+                  statementType === tab.id
+                    ? 'bg-blue-500 text-white shadow-lg'
+                    : 'bg-white text-gray-700 shadow-md hover:bg-gray-100'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
           </div>
+
+          {statementType === 'profitLoss' && statement && previousPeriod && (
+            <ProfitLossStatement
+              statement={statement}
+              period={{ start: startDate, end: endDate }}
+              previousPeriod={previousPeriod}
+            />
+          )}
+          {statementType === 'cashFlow' && <CashFlowStatement period={{ start: startDate, end: endDate }} />}
+          {statementType === 'balanceSheet' && <BalanceSheet asOf={endDate} onNavigate={onNavigate} />}
+          {statementType === 'budget' && <BudgetVsActual period={{ start: startDate, end: endDate }} />}
         </>
       )}
     </div>
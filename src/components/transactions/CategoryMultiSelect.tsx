@@ -0,0 +1,107 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { Category } from '../../lib/supabase';
+
+interface CategoryMultiSelectProps {
+  categories: Category[];
+  selectedIds: string[];
+  onChange: (ids: string[]) => void;
+  disabled?: boolean;
+}
+
+export const CategoryMultiSelect: React.FC<CategoryMultiSelectProps> = ({
+  categories,
+  selectedIds,
+  onChange,
+  disabled,
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id]);
+  };
+
+  const label =
+    selectedIds.length === 0
+      ? 'All categories'
+      : selectedIds.length === 1
+        ? categories.find((c) => c.id === selectedIds[0])?.name || '1 selected'
+        : `${selectedIds.length} selected`;
+
+  const groups: { type: Category['type']; label: string }[] = [
+    { type: 'income', label: 'Income' },
+    { type: 'expense', label: 'Expense' },
+  ];
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        type="button"
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="w-full flex items-center justify-between px-4 py-2 rounded-lg border border-gray-300 bg-white text-left focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <span className="truncate">{label}</span>
+        <ChevronDown className="w-4 h-4 text-gray-500 flex-shrink-0" />
+      </button>
+
+      {open && (
+        <div className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto bg-white rounded-lg border border-gray-200 shadow-lg p-2">
+          {categories.length === 0 ? (
+            <p className="text-sm text-gray-500 px-2 py-1">No categories yet</p>
+          ) : (
+            groups.map((group) => {
+              const items = categories.filter((c) => c.type === group.type);
+              if (items.length === 0) return null;
+
+              return (
+                <div key={group.type} className="mb-2">
+                  <p className="px-2 py-1 text-xs font-semibold text-gray-500 uppercase tracking-wider">
+                    {group.label}
+                  </p>
+                  {items.map((category) => (
+                    <label
+                      key={category.id}
+                      className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-50 text-sm text-gray-900 cursor-pointer"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.includes(category.id)}
+                        onChange={() => toggle(category.id)}
+                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {category.name}
+                    </label>
+                  ))}
+                </div>
+              );
+            })
+          )}
+          {selectedIds.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="w-full text-sm text-blue-600 hover:text-blue-800 py-1 transition"
+            >
+              Clear selection
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { X, Trash2, Copy } from 'lucide-react';
+import { supabase, Transaction } from '../../lib/supabase';
+import { getDuplicateGroupKey, groupDuplicates } from '../../lib/duplicates';
+import { fetchAllPages } from '../../lib/paging';
+
+// Groups marked "not duplicates" are remembered in this browser.
+const DISMISSED_STORAGE_KEY = 'notanusa.dismissedDuplicates';
+
+const loadDismissed = () => {
+  try {
+    return new Set<string>(JSON.parse(localStorage.getItem(DISMISSED_STORAGE_KEY) || '[]'));
+  } catch {
+    return new Set<string>();
+  }
+};
+
+interface DuplicatesReviewProps {
+  onClose: () => void;
+  onChange: () => void;
+}
+
+export const DuplicatesReview: React.FC<DuplicatesReviewProps> = ({ onClose, onChange }) => {
+  const [groups, setGroups] = useState<Transaction[][]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(loadDismissed);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadDuplicates();
+  }, []);
+
+  const loadDuplicates = async () => {
+    try {
+      const candidates = await fetchAllPages<Transaction>((from, to) =>
+        supabase
+          .rpc('duplicate_transaction_candidates')
+          .order('transaction_date', { ascending: false })
+          .order('amount', { ascending: false })
+          .order('created_at')
+          .order('id')
+          .range(from, to)
+      );
+      setGroups(groupDuplicates(candidates));
+    } catch (error) {
+      console.error('Error finding duplicates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this transaction?')) return;
+
+    try {
+      const { error } = await supabase.from('transactions').delete().eq('id', id);
+      if (error) throw error;
+      setGroups(
+        groups
+          .map((group) => group.filter((t) => t.id !== id))
+          .filter((group) => group.length > 1)
+      );
+      onChange();
+    } catch (error) {
+      console.error('Error deleting transaction:', error);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const handleDismiss = (group: Transaction[]) => {
+    const next = new Set(dismissed).add(getDuplicateGroupKey(group));
+    localStorage.setItem(DISMISSED_STORAGE_KEY, JSON.stringify(Array.from(next)));
+    setDismissed(next);
+  };
+
+  const visibleGroups = groups.filter((group) => !dismissed.has(getDuplicateGroupKey(group)));
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Find Duplicates</h2>
+            <p className="text-sm text-gray-600">
+              Transactions with the same date, type and amount and a similar description
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+            </div>
+          ) : visibleGroups.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No likely duplicates found</p>
+          ) : (
+            visibleGroups.map((group) => (
+              <div key={group[0].id} className="rounded-lg border-2 border-yellow-200 bg-yellow-50 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <span className="flex items-center gap-2 font-semibold text-gray-900">
+                    <Copy className="w-4 h-4 text-yellow-600" />
+                    {new Date(group[0].transaction_date).toLocaleDateString('id-ID')} ·{' '}
+                    <span className={group[0].type === 'income' ? 'text-green-600' : 'text-red-600'}>
+                      {formatCurrency(parseFloat(String(group[0].amount)))}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => handleDismiss(group)}
+                    className="text-sm text-gray-600 hover:text-gray-900 transition"
+                  >
+                    Not duplicates
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {group.map((transaction) => (
+                    <div
+                      key={transaction.id}
+                      className="flex items-center justify-between p-3 bg-white rounded-lg"
+                    >
+                      <div>
+                        <p className="text-sm font-medium text-gray-900">
+                          {transaction.description || 'No description'}
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          Entered {new Date(transaction.created_at).toLocaleString('id-ID')}
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleDelete(transaction.id)}
+                        className="text-red-600 hover:text-red-800 transition"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
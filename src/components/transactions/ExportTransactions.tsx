@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { X, Download } from 'lucide-react';
+import { CsvDelimiter, downloadCsv } from '../../lib/csv';
+import { toDateTimeString, today } from '../../lib/dates';
+import { TransactionFilters, TransactionSort, fetchAllTransactions } from '../../lib/transactionQuery';
+
+interface ExportTransactionsProps {
+  filters: TransactionFilters;
+  sort: TransactionSort;
+  count: number;
+  onClose: () => void;
+}
+
+export const ExportTransactions: React.FC<ExportTransactionsProps> = ({ filters, sort, count, onClose }) => {
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(',');
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleExport = async () => {
+    setError('');
+    setExporting(true);
+
+    try {
+      const rows = await fetchAllTransactions(filters, sort);
+
+      // Spreadsheets set to Indonesian read `;` files with a decimal comma.
+      const formatAmount = (amount: number) => {
+        const text = String(parseFloat(String(amount)));
+        return delimiter === ';' ? text.replace('.', ',') : text;
+      };
+
+      downloadCsv(
+        [
+          ['Date', 'Type', 'Category', 'Amount', 'Description', 'Created At', 'Updated At'],
+          ...rows.map((t) => [
+            t.transaction_date,
+            t.type,
+            t.categories?.name || '',
+            formatAmount(t.amount),
+            t.description || '',
+            toDateTimeString(new Date(t.created_at)),
+            toDateTimeString(new Date(t.updated_at)),
+          ]),
+        ],
+        `transactions-${today()}.csv`,
+        delimiter
+      );
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to export transactions');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h2 className="text-2xl font-bold text-gray-900">Export CSV</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">{error}</div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            {count} transaction{count === 1 ? '' : 's'} matching the current filters, with category, type, amount,
+            date, description and timestamps.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Delimiter</label>
+            <select
+              value={delimiter}
+              onChange={(e) => setDelimiter(e.target.value as CsvDelimiter)}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none transition"
+            >
+              <option value=",">Comma (,)</option>
+              <option value=";">Semicolon (;) for Indonesian-locale spreadsheets</option>
+            </select>
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleExport}
+              disabled={exporting || count === 0}
+              className="flex-1 flex items-center justify-center gap-2 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              <Download className="w-5 h-5" />
+              {exporting ? 'Exporting...' : 'Export'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
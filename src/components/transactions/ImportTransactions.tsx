@@ -0,0 +1,569 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Upload, CheckCircle, AlertCircle, Copy } from 'lucide-react';
+import { supabase, Category, Transaction } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { CsvDelimiter, detectDelimiter, parseCsv } from '../../lib/csv';
+import {
+  ColumnMapping,
+  DefaultImportType,
+  ImportField,
+  ImportRecord,
+  ImportResult,
+  buildImportRows,
+  categoryKey,
+  guessMapping,
+  insertInBatches,
+} from '../../lib/transactionImport';
+import {
+  DuplicateAction,
+  DuplicateFields,
+  fetchTransactionsOnDates,
+  findMatches,
+  getMergeUpdate,
+  isLikelyDuplicate,
+  mergeInto,
+} from '../../lib/duplicates';
+
+interface ImportTransactionsProps {
+  onClose: () => void;
+  onSuccess: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done';
+
+// A row duplicates either an existing transaction or an earlier row of the file.
+interface DuplicateMatch {
+  existing?: Transaction;
+  line?: number;
+}
+
+const PREVIEW_LIMIT = 200;
+
+const fieldLabels: { field: ImportField; label: string; required: boolean }[] = [
+  { field: 'transaction_date', label: 'Date', required: true },
+  { field: 'amount', label: 'Amount', required: true },
+  { field: 'type', label: 'Type', required: false },
+  { field: 'category', label: 'Category', required: false },
+  { field: 'description', label: 'Description', required: false },
+];
+
+export const ImportTransactions: React.FC<ImportTransactionsProps> = ({ onClose, onSuccess }) => {
+  const { user } = useAuth();
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [delimiter, setDelimiter] = useState<CsvDelimiter | 'auto'>('auto');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    type: null,
+    amount: null,
+    transaction_date: null,
+    description: null,
+    category: null,
+  });
+  const [defaultType, setDefaultType] = useState<DefaultImportType>('sign');
+  const [createMissingCategories, setCreateMissingCategories] = useState(true);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [importing, setImporting] = useState(false);
+  const [result, setResult] = useState<(ImportResult & { merged: number }) | null>(null);
+  const [existing, setExisting] = useState<Transaction[]>([]);
+  const [checkingDuplicates, setCheckingDuplicates] = useState(false);
+  const [duplicateAction, setDuplicateAction] = useState<DuplicateAction>('skip');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadCategories();
+  }, []);
+
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase.from('categories').select('*');
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    }
+  };
+
+  const rows = useMemo(
+    () => (fileText ? parseCsv(fileText, delimiter === 'auto' ? detectDelimiter(fileText) : delimiter) : []),
+    [fileText, delimiter]
+  );
+  const columnCount = Math.max(0, ...rows.map((r) => r.length));
+  const headers = Array.from({ length: columnCount }, (_, i) =>
+    hasHeader && rows[0]?.[i]?.trim() ? rows[0][i].trim() : `Column ${i + 1}`
+  );
+  // Line numbers refer to the file, so the header row counts as line 1.
+  const importRows = useMemo(
+    () =>
+      step === 'preview' || step === 'done'
+        ? buildImportRows(hasHeader ? rows.slice(1) : rows, mapping, defaultType, hasHeader ? 2 : 1)
+        : [],
+    [step, rows, hasHeader, mapping, defaultType]
+  );
+  const validRows = importRows.filter((r) => r.errors.length === 0);
+  const invalidRows = importRows.filter((r) => r.errors.length > 0);
+
+  useEffect(() => {
+    if (step === 'preview') {
+      loadExisting();
+    }
+  }, [step, importRows]);
+
+  const loadExisting = async () => {
+    setCheckingDuplicates(true);
+    try {
+      setExisting(await fetchTransactionsOnDates(validRows.map((r) => r.transactionDate!)));
+    } catch (error) {
+      console.error('Error checking for duplicates:', error);
+    } finally {
+      setCheckingDuplicates(false);
+    }
+  };
+
+  // A row repeating an earlier row of the file resolves to whatever that row
+  // ends up as: the existing transaction it matched, or the row written.
+  const duplicates = useMemo(() => {
+    const matches = new Map<number, DuplicateMatch>();
+    const seen: { fields: DuplicateFields; target: DuplicateMatch }[] = [];
+
+    importRows.forEach((r) => {
+      if (r.errors.length > 0) return;
+      const fields: DuplicateFields = {
+        type: r.type!,
+        amount: r.amount!,
+        transaction_date: r.transactionDate!,
+        description: r.description || null,
+      };
+      const existingMatch = findMatches(fields, existing)[0];
+      const earlier = seen.find((s) => isLikelyDuplicate(s.fields, fields));
+
+      if (existingMatch) {
+        matches.set(r.line, { existing: existingMatch });
+        seen.push({ fields, target: { existing: existingMatch } });
+      } else if (earlier) {
+        matches.set(r.line, earlier.target);
+        seen.push({ fields, target: earlier.target });
+      } else {
+        seen.push({ fields, target: { line: r.line } });
+      }
+    });
+
+    return matches;
+  }, [importRows, existing]);
+
+  const categoryByKey = new Map(categories.map((c) => [categoryKey(c.name, c.type), c]));
+  const missingCategories = Array.from(
+    new Map(
+      validRows
+        .filter((r) => r.categoryName && r.type && !categoryByKey.has(categoryKey(r.categoryName, r.type)))
+        .map((r) => [categoryKey(r.categoryName, r.type!), { name: r.categoryName, type: r.type! }])
+    ).values()
+  );
+
+  const handleFile = async (file: File) => {
+    setError('');
+    try {
+      const text = await file.text();
+      const parsed = parseCsv(text);
+      if (parsed.length === 0) throw new Error('The file is empty');
+
+      setFileName(file.name);
+      setFileText(text);
+      setMapping(guessMapping(parsed[0]));
+      setStep('map');
+    } catch (err) {
+      setError((err as Error).message || 'Failed to read file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+    setError('');
+    setImporting(true);
+
+    try {
+      const resolved = new Map(categoryByKey);
+
+      if (createMissingCategories && missingCategories.length > 0) {
+        const { data, error } = await supabase
+          .from('categories')
+          .insert(missingCategories.map((c) => ({ user_id: user.id, name: c.name, type: c.type })))
+          .select();
+
+        if (error) throw error;
+        (data || []).forEach((c: Category) => resolved.set(categoryKey(c.name, c.type), c));
+      }
+
+      const records: ImportRecord[] = [];
+      const skipped: ImportResult['skipped'] = invalidRows.map((r) => ({ line: r.line, reason: r.errors.join('; ') }));
+      let merged = 0;
+      // Existing transactions as updated by earlier merges in this import.
+      const mergedExisting = new Map<string, Transaction>();
+
+      for (const r of validRows) {
+        const data: ImportRecord['data'] = {
+          type: r.type!,
+          amount: r.amount!,
+          transaction_date: r.transactionDate!,
+          description: r.description || null,
+          category_id: r.categoryName ? resolved.get(categoryKey(r.categoryName, r.type!))?.id || null : null,
+        };
+        const match = duplicates.get(r.line);
+
+        if (match && duplicateAction === 'skip') {
+          skipped.push({
+            line: r.line,
+            reason: match.existing ? 'Duplicate of an existing transaction' : `Duplicate of line ${match.line}`,
+          });
+          continue;
+        }
+
+        if (match && duplicateAction === 'merge') {
+          if (match.existing) {
+            const current = mergedExisting.get(match.existing.id) || match.existing;
+            await mergeInto(current, data);
+            mergedExisting.set(current.id, { ...current, ...getMergeUpdate(current, data) });
+            merged++;
+            continue;
+          }
+
+          const target = records.find((rec) => rec.line === match.line);
+          if (target) {
+            Object.assign(target.data, getMergeUpdate(target.data, data));
+            merged++;
+            continue;
+          }
+        }
+
+        records.push({ line: r.line, data });
+      }
+
+      const inserted = await insertInBatches(user.id, records);
+      setResult({
+        inserted: inserted.inserted,
+        merged,
+        skipped: [...skipped, ...inserted.skipped].sort((a, b) => a.line - b.line),
+      });
+      setStep('done');
+      if (inserted.inserted > 0 || merged > 0) onSuccess();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to import transactions');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const canPreview = mapping.amount !== null && mapping.transaction_date !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Import Transactions</h2>
+            {fileName && <p className="text-sm text-gray-600">{fileName}</p>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          {step === 'upload' && (
+            <label className="flex flex-col items-center justify-center gap-3 p-12 rounded-xl border-2 border-dashed border-gray-300 hover:border-blue-400 hover:bg-blue-50 transition cursor-pointer">
+              <Upload className="w-10 h-10 text-gray-400" />
+              <span className="font-semibold text-gray-700">Choose a CSV file</span>
+              <span className="text-sm text-gray-500">Spreadsheet or POS export, comma or semicolon separated</span>
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                className="hidden"
+                onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+              />
+            </label>
+          )}
+
+          {step === 'map' && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Delimiter</label>
+                  <select
+                    value={delimiter}
+                    onChange={(e) => setDelimiter(e.target.value as CsvDelimiter | 'auto')}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  >
+                    <option value="auto">Detect automatically</option>
+                    <option value=",">Comma (,)</option>
+                    <option value=";">Semicolon (;)</option>
+                    <option value={'\t'}>Tab</option>
+                  </select>
+                </div>
+                <label className="flex items-end gap-2 pb-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={hasHeader}
+                    onChange={(e) => setHasHeader(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  First row contains column names
+                </label>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {fieldLabels.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      {label}
+                      {required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) =>
+                        setMapping({ ...mapping, [field]: e.target.value === '' ? null : Number(e.target.value) })
+                      }
+                      className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    >
+                      <option value="">Not mapped</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              {mapping.type === null && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Without a type column</label>
+                  <select
+                    value={defaultType}
+                    onChange={(e) => setDefaultType(e.target.value as DefaultImportType)}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  >
+                    <option value="sign">Negative amounts are expenses, others income</option>
+                    <option value="income">Import everything as income</option>
+                    <option value="expense">Import everything as expense</option>
+                  </select>
+                </div>
+              )}
+
+              {mapping.category !== null && (
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={createMissingCategories}
+                    onChange={(e) => setCreateMissingCategories(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Create categories that do not exist yet
+                </label>
+              )}
+            </>
+          )}
+
+          {(step === 'preview' || step === 'done') && !result && (
+            <>
+              <div className="flex flex-wrap gap-3 text-sm">
+                <span className="flex items-center gap-1 px-3 py-1 rounded-full bg-green-100 text-green-800 font-semibold">
+                  <CheckCircle className="w-4 h-4" />
+                  {validRows.length} ready to import
+                </span>
+                {invalidRows.length > 0 && (
+                  <span className="flex items-center gap-1 px-3 py-1 rounded-full bg-red-100 text-red-800 font-semibold">
+                    <AlertCircle className="w-4 h-4" />
+                    {invalidRows.length} with errors will be skipped
+                  </span>
+                )}
+                {duplicates.size > 0 && (
+                  <span className="flex items-center gap-1 px-3 py-1 rounded-full bg-yellow-100 text-yellow-800 font-semibold">
+                    <Copy className="w-4 h-4" />
+                    {duplicates.size} likely duplicate{duplicates.size === 1 ? '' : 's'}
+                  </span>
+                )}
+                {checkingDuplicates && (
+                  <span className="px-3 py-1 rounded-full bg-gray-100 text-gray-600 font-semibold">
+                    Checking for duplicates...
+                  </span>
+                )}
+                {missingCategories.length > 0 && (
+                  <span className="px-3 py-1 rounded-full bg-yellow-100 text-yellow-800 font-semibold">
+                    {missingCategories.length} new categor{missingCategories.length === 1 ? 'y' : 'ies'}
+                    {createMissingCategories ? ' will be created' : ' left uncategorized'}
+                  </span>
+                )}
+              </div>
+
+              {duplicates.size > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    When a row looks like a duplicate
+                  </label>
+                  <select
+                    value={duplicateAction}
+                    onChange={(e) => setDuplicateAction(e.target.value as DuplicateAction)}
+                    className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                  >
+                    <option value="skip">Skip it</option>
+                    <option value="merge">Merge it into the matching transaction</option>
+                    <option value="keep">Keep both</option>
+                  </select>
+                </div>
+              )}
+
+              <div className="overflow-x-auto rounded-lg border border-gray-200">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Line', 'Date', 'Type', 'Amount', 'Category', 'Description', 'Status'].map((h) => (
+                        <th
+                          key={h}
+                          className="px-4 py-3 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider"
+                        >
+                          {h}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {importRows.slice(0, PREVIEW_LIMIT).map((row) => (
+                      <tr
+                        key={row.line}
+                        className={row.errors.length > 0 ? 'bg-red-50' : duplicates.has(row.line) ? 'bg-yellow-50' : ''}
+                      >
+                        <td className="px-4 py-2 text-gray-500">{row.line}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {row.transactionDate ? new Date(row.transactionDate).toLocaleDateString('id-ID') : '-'}
+                        </td>
+                        <td className="px-4 py-2">{row.type || '-'}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {row.amount !== null ? formatCurrency(row.amount) : '-'}
+                        </td>
+                        <td className="px-4 py-2">{row.categoryName || '-'}</td>
+                        <td className="px-4 py-2">{row.description || '-'}</td>
+                        <td className="px-4 py-2">
+                          {row.errors.length > 0 ? (
+                            <span className="text-red-700">{row.errors.join('; ')}</span>
+                          ) : duplicates.has(row.line) ? (
+                            <span className="text-yellow-700">
+                              {duplicates.get(row.line)?.existing
+                                ? 'Duplicate of an existing transaction'
+                                : `Duplicate of line ${duplicates.get(row.line)?.line}`}
+                            </span>
+                          ) : (
+                            <span className="text-green-700">OK</span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {importRows.length > PREVIEW_LIMIT && (
+                <p className="text-sm text-gray-500">
+                  Showing the first {PREVIEW_LIMIT} of {importRows.length} rows.
+                </p>
+              )}
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <div className="space-y-4">
+              <div className="bg-green-50 border border-green-200 text-green-700 px-4 py-3 rounded-lg flex items-center gap-2">
+                <CheckCircle className="w-5 h-5" />
+                Imported {result.inserted} transaction{result.inserted === 1 ? '' : 's'}
+                {result.merged > 0 && `, merged ${result.merged} into existing entries`}.
+              </div>
+              {result.skipped.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 mb-2">
+                    Skipped {result.skipped.length} row{result.skipped.length === 1 ? '' : 's'}
+                  </h3>
+                  <ul className="max-h-64 overflow-y-auto text-sm divide-y divide-gray-200 rounded-lg border border-gray-200">
+                    {result.skipped.map((s) => (
+                      <li key={s.line} className="px-4 py-2">
+                        <span className="font-medium text-gray-700">Line {s.line}:</span>{' '}
+                        <span className="text-red-700">{s.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-3 p-6 border-t">
+          {step === 'map' && (
+            <button
+              type="button"
+              onClick={() => setStep('upload')}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Back
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={() => setStep('map')}
+              disabled={importing}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Back
+            </button>
+          )}
+          {step === 'map' && (
+            <button
+              type="button"
+              onClick={() => setStep('preview')}
+              disabled={!canPreview}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              Preview
+            </button>
+          )}
+          {step === 'preview' && (
+            <button
+              type="button"
+              onClick={handleImport}
+              disabled={importing || checkingDuplicates || validRows.length === 0}
+              className="flex-1 px-6 py-3 rounded-lg bg-gradient-to-r from-blue-500 to-blue-600 text-white font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl disabled:opacity-50"
+            >
+              {importing ? 'Importing...' : `Import ${validRows.length} transaction${validRows.length === 1 ? '' : 's'}`}
+            </button>
+          )}
+          {(step === 'upload' || step === 'done') && (
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-6 py-3 rounded-lg border border-gray-300 text-gray-700 font-semibold hover:bg-gray-50 transition"
+            >
+              Close
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,31 +1,42 @@
 import React, { useState, useEffect } from 'react';
-import { X } from 'lucide-react';
-import { supabase, Category } from '../../lib/supabase';
+import { X, Copy, AlertTriangle, Target } from 'lucide-react';
+import { supabase, Category, Transaction } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { today } from '../../lib/dates';
+import { fetchTransactionsOnDates, findMatches, mergeInto } from '../../lib/duplicates';
+import { Anomaly, describeAnomaly, detectAnomaly, fetchBaselines } from '../../lib/anomalies';
+import { BudgetMonth, fetchCategoryBudgetMonth, formatMonth } from '../../lib/budgets';
 
 interface TransactionFormProps {
   onClose: () => void;
   onSuccess: () => void;
-  editTransaction?: any;
+  editTransaction?: Transaction;
 }
 
 export const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuccess, editTransaction }) => {
   const { user } = useAuth();
   const [type, setType] = useState<'income' | 'expense'>(editTransaction?.type || 'income');
-  const [amount, setAmount] = useState(editTransaction?.amount || '');
+  const [amount, setAmount] = useState(editTransaction ? String(editTransaction.amount) : '');
   const [categoryId, setCategoryId] = useState(editTransaction?.category_id || '');
   const [description, setDescription] = useState(editTransaction?.description || '');
   const [transactionDate, setTransactionDate] = useState(
-    editTransaction?.transaction_date || new Date().toISOString().split('T')[0]
+    editTransaction?.transaction_date || today()
   );
   const [categories, setCategories] = useState<Category[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [duplicates, setDuplicates] = useState<Transaction[]>([]);
+  const [anomaly, setAnomaly] = useState<Anomaly | null>(null);
+  const [budgetMonth, setBudgetMonth] = useState<BudgetMonth | null>(null);
 
   useEffect(() => {
     loadCategories();
   }, [type]);
 
+  useEffect(() => {
+    loadBudget();
+  }, [type, categoryId, transactionDate]);
+
   const loadCategories = async () => {
     try {
       const { data, error } = await supabase
@@ -41,21 +52,93 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuc
     }
   };
 
+  // The budget this expense counts against, without the expense itself.
+  const loadBudget = async () => {
+    if (type !== 'expense' || !categoryId || !transactionDate) {
+      setBudgetMonth(null);
+      return;
+    }
+
+    try {
+      setBudgetMonth(await fetchCategoryBudgetMonth(categoryId, transactionDate, editTransaction?.id));
+    } catch (error) {
+      console.error('Error loading budget:', error);
+    }
+  };
+
+  const getTransactionData = () => ({
+    user_id: user?.id,
+    type,
+    amount: parseFloat(amount),
+    category_id: categoryId || null,
+    description,
+    transaction_date: transactionDate,
+    updated_at: new Date().toISOString(),
+  });
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setDuplicates([]);
+    setAnomaly(null);
+    setLoading(true);
+
+    try {
+      const existing = await fetchTransactionsOnDates([transactionDate]);
+      const matches = findMatches(
+        getTransactionData(),
+        existing.filter((t) => t.id !== editTransaction?.id)
+      );
+
+      if (matches.length > 0) {
+        setDuplicates(matches);
+        setLoading(false);
+        return;
+      }
+
+      await checkAnomaly();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save transaction');
+      setLoading(false);
+    }
+  };
+
+  // An edit that keeps a reviewed amount in the same category is not asked
+  // about again.
+  const isReviewed = () =>
+    !!editTransaction?.anomaly_reviewed_at &&
+    editTransaction.type === type &&
+    (editTransaction.category_id || '') === categoryId &&
+    parseFloat(String(editTransaction.amount)) === parseFloat(amount);
+
+  const checkAnomaly = async () => {
+    setDuplicates([]);
+    setError('');
     setLoading(true);
 
     try {
-      const transactionData = {
-        user_id: user?.id,
-        type,
-        amount: parseFloat(amount),
-        category_id: categoryId || null,
-        description,
-        transaction_date: transactionDate,
-        updated_at: new Date().toISOString(),
-      };
+      if (!isReviewed()) {
+        const found = detectAnomaly(getTransactionData(), await fetchBaselines(editTransaction?.id));
+        if (found) {
+          setAnomaly(found);
+          setLoading(false);
+          return;
+        }
+      }
+
+      await saveTransaction(isReviewed() ? editTransaction?.anomaly_reviewed_at || null : null);
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save transaction');
+      setLoading(false);
+    }
+  };
+
+  const saveTransaction = async (anomalyReviewedAt: string | null) => {
+    setError('');
+    setLoading(true);
+
+    try {
+      const transactionData = { ...getTransactionData(), anomaly_reviewed_at: anomalyReviewedAt };
 
       if (editTransaction) {
         const { error } = await supabase
@@ -71,13 +154,81 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuc
 
       onSuccess();
       onClose();
-    } catch (err: any) {
-      setError(err.message || 'Failed to save transaction');
+    } catch (err) {
+      setError((err as Error).message || 'Failed to save transaction');
     } finally {
       setLoading(false);
     }
   };
 
+  // Folds this entry into the first match; an edited entry is then removed.
+  const handleMerge = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      // Deleting a linked entry would orphan its payment or let the schedule
+      // post the occurrence again.
+      if (editTransaction) {
+        if (editTransaction.recurring_id) {
+          throw new Error('This transaction was posted by a recurring template and cannot be merged');
+        }
+
+        const { count, error } = await supabase
+          .from('debt_payments')
+          .select('id', { count: 'exact', head: true })
+          .eq('transaction_id', editTransaction.id);
+
+        if (error) throw error;
+        if (count) {
+          throw new Error('This transaction was posted by a debt payment and cannot be merged');
+        }
+      }
+
+      await mergeInto(duplicates[0], { category_id: categoryId || null, description });
+
+      if (editTransaction) {
+        const { error } = await supabase.from('transactions').delete().eq('id', editTransaction.id);
+        if (error) throw error;
+      }
+
+      onSuccess();
+      onClose();
+    } catch (err) {
+      setError((err as Error).message || 'Failed to merge transaction');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      minimumFractionDigits: 0,
+    }).format(value);
+  };
+
+  const renderBudget = (month: BudgetMonth) => {
+    const after = month.spent + (parseFloat(amount) || 0);
+    const name = categories.find((c) => c.id === categoryId)?.name || 'This category';
+
+    return after > month.available ? (
+      <div className="flex items-start gap-2 bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded-lg text-sm">
+        <Target className="w-4 h-4 mt-0.5 flex-shrink-0" />
+        <span>
+          {name} would be {formatCurrency(after - month.available)} over its{' '}
+          {formatCurrency(month.available)} budget for {formatMonth(month.month)}.
+        </span>
+      </div>
+    ) : (
+      <p className="flex items-center gap-2 text-sm text-gray-500 -mt-3">
+        <Target className="w-4 h-4" />
+        {formatCurrency(month.available - after)} left in the {formatMonth(month.month)} budget after this expense
+      </p>
+    );
+  };
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md">
@@ -158,6 +309,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuc
             </select>
           </div>
 
+          {budgetMonth && renderBudget(budgetMonth)}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Date</label>
             <input
@@ -180,6 +333,80 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ onClose, onSuc
             />
           </div>
 
+          {duplicates.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2 text-yellow-800 font-semibold">
+                <Copy className="w-4 h-4" />
+                This looks like a duplicate
+              </div>
+              <ul className="text-sm text-yellow-800 space-y-1">
+                {duplicates.map((t) => (
+                  <li key={t.id}>
+                    {new Date(t.transaction_date).toLocaleDateString('id-ID')} ·{' '}
+                    {formatCurrency(parseFloat(String(t.amount)))} · {t.description || 'No description'}
+                  </li>
+                ))}
+              </ul>
+              <div className="grid grid-cols-3 gap-2">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  disabled={loading}
+                  className="px-3 py-2 rounded-lg border border-yellow-300 text-yellow-800 text-sm font-semibold hover:bg-yellow-100 transition disabled:opacity-50"
+                >
+                  Skip
+                </button>
+                <button
+                  type="button"
+                  onClick={handleMerge}
+                  disabled={loading}
+                  className="px-3 py-2 rounded-lg border border-yellow-300 text-yellow-800 text-sm font-semibold hover:bg-yellow-100 transition disabled:opacity-50"
+                >
+                  Merge
+                </button>
+                <button
+                  type="button"
+                  onClick={checkAnomaly}
+                  disabled={loading}
+                  className="px-3 py-2 rounded-lg bg-yellow-500 text-white text-sm font-semibold hover:bg-yellow-600 transition disabled:opacity-50"
+                >
+                  Keep both
+                </button>
+              </div>
+            </div>
+          )}
+
+          {anomaly && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 space-y-3">
+              <div className="flex items-center gap-2 text-yellow-800 font-semibold">
+                <AlertTriangle className="w-4 h-4" />
+                Unusual amount for {categories.find((c) => c.id === categoryId)?.name || 'Uncategorized'}
+              </div>
+              <p className="text-sm text-yellow-800">
+                {formatCurrency(parseFloat(amount))} · {describeAnomaly(anomaly)} across the last{' '}
+                {anomaly.baseline.count} entries. Check for a missing or extra zero.
+              </p>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setAnomaly(null)}
+                  disabled={loading}
+                  className="px-3 py-2 rounded-lg border border-yellow-300 text-yellow-800 text-sm font-semibold hover:bg-yellow-100 transition disabled:opacity-50"
+                >
+                  Fix amount
+                </button>
+                <button
+                  type="button"
+                  onClick={() => saveTransaction(new Date().toISOString())}
+                  disabled={loading}
+                  className="px-3 py-2 rounded-lg bg-yellow-500 text-white text-sm font-semibold hover:bg-yellow-600 transition disabled:opacity-50"
+                >
+                  It's correct, save
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="flex gap-3 pt-4">
             <button
               type="button"
@@ -1,39 +1,101 @@
-import React, { useEffect, useState } from 'react';
-import { Plus, Edit, Trash2, Filter } from 'lucide-react';
-import { supabase, Transaction } from '../../lib/supabase';
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Upload, Download, Copy, FileSpreadsheet, Edit, Trash2, Filter, Link2, Repeat, X, Search, ArrowUp, ArrowDown, ChevronLeft, ChevronRight, AlertTriangle } from 'lucide-react';
+import { supabase, Category, Transaction } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
+import { NavigateHandler, NavigationParams } from '../../lib/navigation';
+import { fetchOutstandingItems } from '../../lib/debts';
+import { today } from '../../lib/dates';
+import { exportWorkbook } from '../../lib/xlsxExport';
+import { CategoryBaseline, describeAnomaly, detectAnomaly, fetchBaselines } from '../../lib/anomalies';
+import {
+  TransactionFilters,
+  TransactionRow,
+  TransactionSort,
+  TransactionSortColumn,
+  TransactionTotals,
+  defaultSort,
+  emptyFilters,
+  fetchAllTransactions,
+  fetchTransactionPage,
+  fetchTransactionTotals,
+} from '../../lib/transactionQuery';
 import { TransactionForm } from './TransactionForm';
+import { CategoryMultiSelect } from './CategoryMultiSelect';
+import { ImportTransactions } from './ImportTransactions';
+import { ExportTransactions } from './ExportTransactions';
+import { DateRangePicker } from '../common/DateRangePicker';
+import { DuplicatesReview } from './DuplicatesReview';
 
-export const TransactionsPage: React.FC = () => {
+const PAGE_SIZE = 25;
+
+interface TransactionsPageProps {
+  params: NavigationParams;
+  onNavigate: NavigateHandler;
+}
+
+export const TransactionsPage: React.FC<TransactionsPageProps> = ({ params, onNavigate }) => {
   const { user } = useAuth();
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [filteredTransactions, setFilteredTransactions] = useState<Transaction[]>([]);
+  const [transactions, setTransactions] = useState<TransactionRow[]>([]);
+  const [totals, setTotals] = useState<TransactionTotals>({ totalIncome: 0, totalExpense: 0, count: 0 });
   const [loading, setLoading] = useState(true);
   const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showExport, setShowExport] = useState(false);
   const [editTransaction, setEditTransaction] = useState<Transaction | undefined>();
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
-  const [dateFrom, setDateFrom] = useState('');
-  const [dateTo, setDateTo] = useState('');
+  const [filters, setFilters] = useState<TransactionFilters>({
+    ...emptyFilters,
+    dateFrom: params.dateFrom || '',
+    dateTo: params.dateTo || '',
+    debtReceivableId: params.debtReceivableId,
+  });
+  const [searchInput, setSearchInput] = useState('');
+  const [sort, setSort] = useState<TransactionSort>(defaultSort);
+  const [page, setPage] = useState(0);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const [baselines, setBaselines] = useState<Map<string, CategoryBaseline>>(new Map());
+  // Incremented per load, so a slow response cannot overwrite a newer one.
+  const latestRequest = useRef(0);
 
   useEffect(() => {
     if (user) {
       loadTransactions();
     }
+  }, [user, filters, sort, page]);
+
+  useEffect(() => {
+    if (user) {
+      loadCategories();
+      loadBaselines();
+    }
   }, [user]);
 
+  // Wait for a pause in typing before querying.
   useEffect(() => {
-    applyFilters();
-  }, [transactions, filterType, dateFrom, dateTo]);
+    const timeout = setTimeout(() => {
+      if (searchInput !== filters.search) updateFilters({ search: searchInput });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.search]);
 
   const loadTransactions = async () => {
+    const request = ++latestRequest.current;
     try {
-      const { data, error } = await supabase
-        .from('transactions')
-        .select('*')
-        .order('transaction_date', { ascending: false });
+      const [rows, filteredTotals] = await Promise.all([
+        fetchTransactionPage(filters, sort, page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1),
+        fetchTransactionTotals(filters),
+      ]);
+      if (request !== latestRequest.current) return;
 
-      if (error) throw error;
-      setTransactions(data || []);
+      // Step back when the last row of the final page was deleted.
+      if (rows.length === 0 && page > 0) {
+        setPage(Math.max(Math.ceil(filteredTotals.count / PAGE_SIZE) - 1, 0));
+        return;
+      }
+
+      setTransactions(rows);
+      setTotals(filteredTotals);
     } catch (error) {
       console.error('Error loading transactions:', error);
     } finally {
@@ -41,22 +103,46 @@ export const TransactionsPage: React.FC = () => {
     }
   };
 
-  const applyFilters = () => {
-    let filtered = [...transactions];
+  const loadCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('*')
+        .order('type')
+        .order('name');
 
-    if (filterType !== 'all') {
-      filtered = filtered.filter((t) => t.type === filterType);
+      if (error) throw error;
+      setCategories(data || []);
+    } catch (error) {
+      console.error('Error loading categories:', error);
     }
+  };
 
-    if (dateFrom) {
-      filtered = filtered.filter((t) => t.transaction_date >= dateFrom);
+  const loadBaselines = async () => {
+    try {
+      setBaselines(await fetchBaselines());
+    } catch (error) {
+      console.error('Error loading baselines:', error);
     }
+  };
 
-    if (dateTo) {
-      filtered = filtered.filter((t) => t.transaction_date <= dateTo);
-    }
+  const reloadTransactions = () => {
+    loadTransactions();
+    loadBaselines();
+  };
 
-    setFilteredTransactions(filtered);
+  const updateFilters = (changes: Partial<TransactionFilters>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setPage(0);
+  };
+
+  const toggleSort = (column: TransactionSortColumn) => {
+    setSort(
+      sort.column === column
+        ? { column, ascending: !sort.ascending }
+        : { column, ascending: column === 'category' || column === 'type' }
+    );
+    setPage(0);
   };
 
   const handleDelete = async (id: string) => {
@@ -71,6 +157,38 @@ export const TransactionsPage: React.FC = () => {
     }
   };
 
+  // Exports every row matching the current filters, not just this page.
+  const handleExportExcel = async () => {
+    setExporting(true);
+    try {
+      const asOf = filters.dateTo || today();
+      const [rows, { receivables, debts }] = await Promise.all([
+        fetchAllTransactions(filters, sort),
+        fetchOutstandingItems(asOf),
+      ]);
+
+      await exportWorkbook({
+        title: 'Transactions',
+        period: { start: filters.dateFrom, end: filters.dateTo },
+        summary: [
+          { label: 'Total Income', value: totals.totalIncome, kind: 'amount' },
+          { label: 'Total Expense', value: totals.totalExpense, kind: 'amount' },
+          { label: 'Net', value: totals.totalIncome - totals.totalExpense, kind: 'amount' },
+          { label: 'Total Transactions', value: totals.count, kind: 'count' },
+        ],
+        transactions: rows,
+        receivables,
+        debts,
+        outstandingAsOf: asOf,
+        fileName: `transactions-${today()}.xlsx`,
+      });
+    } catch (error) {
+      console.error('Error exporting transactions:', error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -79,17 +197,24 @@ export const TransactionsPage: React.FC = () => {
     }).format(amount);
   };
 
-  const getTotalIncome = () => {
-    return filteredTransactions
-      .filter((t) => t.type === 'income')
-      .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0);
-  };
+  const renderSortHeader = (column: TransactionSortColumn, label: string) => (
+    <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
+      <button
+        onClick={() => toggleSort(column)}
+        className="inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 transition"
+      >
+        {label}
+        {sort.column === column &&
+          (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+      </button>
+    </th>
+  );
 
-  const getTotalExpense = () => {
-    return filteredTransactions
-      .filter((t) => t.type === 'expense')
-      .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0);
-  };
+  const pageCount = Math.max(Math.ceil(totals.count / PAGE_SIZE), 1);
+
+  const linkedParty = transactions
+    .flatMap((t) => t.debt_payments)
+    .find((p) => p.debt_receivable_id === filters.debtReceivableId)?.debts_receivables?.party_name;
 
   if (loading) {
     return (
@@ -106,16 +231,48 @@ export const TransactionsPage: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Transactions</h1>
           <p className="text-gray-600">Manage your income and expenses</p>
         </div>
-        <button
-          onClick={() => {
-            setEditTransaction(undefined);
-            setShowForm(true);
-          }}
-          className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
-        >
-          <Plus className="w-5 h-5" />
-          New Transaction
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg border border-gray-300 bg-white text-gray-700 font-semibold hover:bg-gray-50 transition"
+          >
+            <Copy className="w-5 h-5" />
+            Find Duplicates
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg border border-gray-300 bg-white text-gray-700 font-semibold hover:bg-gray-50 transition"
+          >
+            <Upload className="w-5 h-5" />
+            Import CSV
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
+            disabled={totals.count === 0}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg border border-gray-300 bg-white text-gray-700 font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-5 h-5" />
+            Export CSV
+          </button>
+          <button
+            onClick={handleExportExcel}
+            disabled={totals.count === 0 || exporting}
+            className="flex items-center gap-2 px-6 py-3 rounded-lg border border-gray-300 bg-white text-gray-700 font-semibold hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <FileSpreadsheet className="w-5 h-5" />
+            {exporting ? 'Exporting...' : 'Export Excel'}
+          </button>
+          <button
+            onClick={() => {
+              setEditTransaction(undefined);
+              setShowForm(true);
+            }}
+            className="flex items-center gap-2 px-6 py-3 bg-gradient-to-r from-blue-500 to-blue-600 text-white rounded-lg font-semibold hover:from-blue-600 hover:to-blue-700 transition shadow-lg hover:shadow-xl"
+          >
+            <Plus className="w-5 h-5" />
+            New Transaction
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-md p-6">
@@ -123,12 +280,25 @@ export const TransactionsPage: React.FC = () => {
           <Filter className="w-5 h-5 text-gray-600" />
           <h3 className="text-lg font-semibold text-gray-900">Filters</h3>
         </div>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="md:col-span-3">
+            <label className="block text-sm font-medium text-gray-700 mb-2">Search</label>
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                className="w-full pl-10 pr-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                placeholder="Search descriptions..."
+              />
+            </div>
+          </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">Type</label>
             <select
-              value={filterType}
-              onChange={(e) => setFilterType(e.target.value as any)}
+              value={filters.type}
+              onChange={(e) => updateFilters({ type: e.target.value as TransactionFilters['type'] })}
               className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
             >
               <option value="all">All</option>
@@ -137,29 +307,29 @@ export const TransactionsPage: React.FC = () => {
             </select>
           </div>
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">From Date</label>
-            <input
-              type="date"
-              value={dateFrom}
-              onChange={(e) => setDateFrom(e.target.value)}
-              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-2">To Date</label>
-            <input
-              type="date"
-              value={dateTo}
-              onChange={(e) => setDateTo(e.target.value)}
-              className="w-full px-4 py-2 rounded-lg border border-gray-300 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+            <label className="block text-sm font-medium text-gray-700 mb-2">Category</label>
+            <CategoryMultiSelect
+              categories={categories}
+              selectedIds={filters.categoryIds}
+              onChange={(categoryIds) => updateFilters({ categoryIds })}
+              disabled={filters.uncategorizedOnly}
             />
+            <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={filters.uncategorizedOnly}
+                onChange={(e) => updateFilters({ uncategorizedOnly: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              Uncategorized only
+            </label>
           </div>
           <div className="flex items-end">
             <button
               onClick={() => {
-                setFilterType('all');
-                setDateFrom('');
-                setDateTo('');
+                setSearchInput('');
+                setFilters(emptyFilters);
+                setPage(0);
               }}
               className="w-full px-4 py-2 rounded-lg border border-gray-300 text-gray-700 font-medium hover:bg-gray-50 transition"
             >
@@ -167,20 +337,42 @@ export const TransactionsPage: React.FC = () => {
             </button>
           </div>
         </div>
+        <div className="mt-4">
+          <DateRangePicker
+            value={{ start: filters.dateFrom, end: filters.dateTo }}
+            onChange={(range) => updateFilters({ dateFrom: range.start, dateTo: range.end })}
+            allowAllDates
+          />
+        </div>
       </div>
 
+      {filters.debtReceivableId && (
+        <div className="flex items-center justify-between bg-blue-50 border border-blue-200 text-blue-700 px-4 py-3 rounded-lg">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <Link2 className="w-4 h-4" />
+            Showing transactions posted from payments of {linkedParty || 'a debt or receivable'}
+          </span>
+          <button
+            onClick={() => updateFilters({ debtReceivableId: undefined })}
+            className="text-blue-600 hover:text-blue-800 transition"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
         <div className="bg-gradient-to-br from-green-500 to-green-600 text-white rounded-xl shadow-lg p-6">
           <p className="text-green-100 text-sm font-medium mb-2">Total Income</p>
-          <p className="text-3xl font-bold">{formatCurrency(getTotalIncome())}</p>
+          <p className="text-3xl font-bold">{formatCurrency(totals.totalIncome)}</p>
         </div>
         <div className="bg-gradient-to-br from-red-500 to-red-600 text-white rounded-xl shadow-lg p-6">
           <p className="text-red-100 text-sm font-medium mb-2">Total Expense</p>
-          <p className="text-3xl font-bold">{formatCurrency(getTotalExpense())}</p>
+          <p className="text-3xl font-bold">{formatCurrency(totals.totalExpense)}</p>
         </div>
         <div className="bg-gradient-to-br from-blue-500 to-blue-600 text-white rounded-xl shadow-lg p-6">
           <p className="text-blue-100 text-sm font-medium mb-2">Net Balance</p>
-          <p className="text-3xl font-bold">{formatCurrency(getTotalIncome() - getTotalExpense())}</p>
+          <p className="text-3xl font-bold">{formatCurrency(totals.totalIncome - totals.totalExpense)}</p>
         </div>
       </div>
 
@@ -189,83 +381,151 @@ export const TransactionsPage: React.FC = () => {
           <table className="w-full">
             <thead className="bg-gray-50">
               <tr>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
-                  Date
-                </th>
+                {renderSortHeader('transaction_date', 'Date')}
                 <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
                   Description
                 </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
-                  Type
-                </th>
-                <th className="px-6 py-4 text-left text-xs font-semibold text-gray-700 uppercase tracking-wider">
-                  Amount
-                </th>
+                {renderSortHeader('category', 'Category')}
+                {renderSortHeader('type', 'Type')}
+                {renderSortHeader('amount', 'Amount')}
                 <th className="px-6 py-4 text-right text-xs font-semibold text-gray-700 uppercase tracking-wider">
                   Actions
                 </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-200">
-              {filteredTransactions.length === 0 ? (
+              {transactions.length === 0 ? (
                 <tr>
-                  <td colSpan={5} className="px-6 py-12 text-center text-gray-500">
+                  <td colSpan={6} className="px-6 py-12 text-center text-gray-500">
                     No transactions found
                   </td>
                 </tr>
               ) : (
-                filteredTransactions.map((transaction) => (
-                  <tr key={transaction.id} className="hover:bg-gray-50 transition">
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                      {new Date(transaction.transaction_date).toLocaleDateString('id-ID')}
-                    </td>
-                    <td className="px-6 py-4 text-sm text-gray-900">
-                      {transaction.description || '-'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className={`px-3 py-1 rounded-full text-xs font-semibold ${
-                          transaction.type === 'income'
-                            ? 'bg-green-100 text-green-800'
-                            : 'bg-red-100 text-red-800'
-                        }`}
-                      >
-                        {transaction.type}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span
-                        className={`text-sm font-bold ${
-                          transaction.type === 'income' ? 'text-green-600' : 'text-red-600'
-                        }`}
-                      >
-                        {transaction.type === 'income' ? '+' : '-'}{' '}
-                        {formatCurrency(parseFloat(String(transaction.amount)))}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      <button
-                        onClick={() => {
-                          setEditTransaction(transaction);
-                          setShowForm(true);
-                        }}
-                        className="text-blue-600 hover:text-blue-800 mr-4 transition"
-                      >
-                        <Edit className="w-5 h-5 inline" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(transaction.id)}
-                        className="text-red-600 hover:text-red-800 transition"
-                      >
-                        <Trash2 className="w-5 h-5 inline" />
-                      </button>
-                    </td>
-                  </tr>
-                ))
+                transactions.map((transaction) => {
+                  const anomaly = transaction.anomaly_reviewed_at ? null : detectAnomaly(transaction, baselines);
+                  return (
+                    <tr key={transaction.id} className="hover:bg-gray-50 transition">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {new Date(transaction.transaction_date).toLocaleDateString('id-ID')}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {transaction.description || '-'}
+                        {transaction.recurring_id && (
+                          <button
+                            onClick={() => onNavigate('recurring')}
+                            className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-purple-100 text-purple-800 hover:bg-purple-200 transition"
+                          >
+                            <Repeat className="w-3 h-3" />
+                            Recurring
+                          </button>
+                        )}
+                        {transaction.debt_payments.map((payment) => (
+                          <button
+                            key={payment.debt_receivable_id}
+                            onClick={() => onNavigate('debts', { debtReceivableId: payment.debt_receivable_id })}
+                            className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-800 hover:bg-blue-200 transition"
+                          >
+                            <Link2 className="w-3 h-3" />
+                            {payment.debts_receivables?.type === 'receivable' ? 'Receivable' : 'Debt'} payment
+                          </button>
+                        ))}
+                        {anomaly && (
+                          <button
+                            onClick={() => onNavigate('analytics')}
+                            title={`${describeAnomaly(anomaly)}. Review it in Analytics.`}
+                            className="ml-2 inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-yellow-100 text-yellow-800 hover:bg-yellow-200 transition"
+                          >
+                            <AlertTriangle className="w-3 h-3" />
+                            Unusual
+                          </button>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {transaction.categories?.name || <span className="text-gray-400">Uncategorized</span>}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`px-3 py-1 rounded-full text-xs font-semibold ${
+                            transaction.type === 'income'
+                              ? 'bg-green-100 text-green-800'
+                              : 'bg-red-100 text-red-800'
+                          }`}
+                        >
+                          {transaction.type}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span
+                          className={`text-sm font-bold ${
+                            transaction.type === 'income' ? 'text-green-600' : 'text-red-600'
+                          }`}
+                        >
+                          {transaction.type === 'income' ? '+' : '-'}{' '}
+                          {formatCurrency(parseFloat(String(transaction.amount)))}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                        <button
+                          onClick={() => {
+                            // The payment owns its posted transaction, so it is
+                            // edited from the payment history instead.
+                            const payment = transaction.debt_payments[0];
+                            if (payment) {
+                              onNavigate('debts', { debtReceivableId: payment.debt_receivable_id });
+                              return;
+                            }
+                            setEditTransaction(transaction);
+                            setShowForm(true);
+                          }}
+                          title={
+                            transaction.debt_payments.length > 0
+                              ? 'Posted by a debt payment. Edit the payment instead.'
+                              : undefined
+                          }
+                          className="text-blue-600 hover:text-blue-800 mr-4 transition"
+                        >
+                          <Edit className="w-5 h-5 inline" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(transaction.id)}
+                          className="text-red-600 hover:text-red-800 transition"
+                        >
+                          <Trash2 className="w-5 h-5 inline" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
         </div>
+        <div className="flex items-center justify-between px-6 py-4 border-t border-gray-200 text-sm text-gray-600">
+          <span>
+            {totals.count === 0
+              ? 'No transactions'
+              : `Showing ${page * PAGE_SIZE + 1}–${Math.min((page + 1) * PAGE_SIZE, totals.count)} of ${totals.count}`}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page === 0}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page + 1 >= pageCount}
+              className="p-2 rounded-lg border border-gray-300 hover:bg-gray-50 transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
       </div>
 
       {showForm && (
@@ -274,10 +534,28 @@ export const TransactionsPage: React.FC = () => {
             setShowForm(false);
             setEditTransaction(undefined);
           }}
-          onSuccess={loadTransactions}
+          onSuccess={reloadTransactions}
           editTransaction={editTransaction}
         />
       )}
+
+      {showDuplicates && (
+        <DuplicatesReview onClose={() => setShowDuplicates(false)} onChange={loadTransactions} />
+      )}
+
+      {showExport && (
+        <ExportTransactions filters={filters} sort={sort} count={totals.count} onClose={() => setShowExport(false)} />
+      )}
+
+      {showImport && (
+        <ImportTransactions
+          onClose={() => setShowImport(false)}
+          onSuccess={() => {
+            reloadTransactions();
+            loadCategories();
+          }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,143 @@
+import { Category, Transaction } from './supabase';
+import { DateRange, addDays, addMonths, parseDateString, toDateString } from './dates';
+
+export type AnalyticsTransaction = Pick<Transaction, 'type' | 'amount' | 'category_id' | 'transaction_date'> & {
+  categories: Pick<Category, 'name'> | null;
+};
+
+export interface SeriesPoint {
+  key: string;
+  label: string;
+  start: string;
+  end: string;
+  income: number;
+  expense: number;
+  net: number;
+  // Running net from the first point up to and including this one.
+  cumulativeNet: number;
+}
+
+export interface CategoryShare {
+  key: string;
+  name: string;
+  value: number;
+}
+
+export type Granularity = 'day' | 'week' | 'month' | 'quarter';
+
+export const granularityLabels: Record<Granularity, string> = {
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+  quarter: 'Quarter',
+};
+
+// The first day of the bucket `date` falls in. Weeks start on Monday.
+const getBucketStart = (date: string, granularity: Granularity) => {
+  const value = parseDateString(date);
+  switch (granularity) {
+    case 'day':
+      return date;
+    case 'week':
+      return addDays(date, -((value.getDay() + 6) % 7));
+    case 'month':
+      return `${date.slice(0, 7)}-01`;
+    case 'quarter':
+      return toDateString(new Date(value.getFullYear(), value.getMonth() - (value.getMonth() % 3), 1));
+  }
+};
+
+const getNextBucketStart = (start: string, granularity: Granularity) => {
+  switch (granularity) {
+    case 'day':
+      return addDays(start, 1);
+    case 'week':
+      return addDays(start, 7);
+    case 'month':
+      return addMonths(start, 1);
+    case 'quarter':
+      return addMonths(start, 3);
+  }
+};
+
+const getBucketLabel = (start: string, granularity: Granularity) => {
+  const value = parseDateString(start);
+  switch (granularity) {
+    case 'day':
+      return value.toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+    case 'week':
+      return value.toLocaleDateString('id-ID', { day: 'numeric', month: 'short', year: '2-digit' });
+    case 'month':
+      return value.toLocaleDateString('id-ID', { month: 'short', year: 'numeric' });
+    case 'quarter':
+      return `Q${Math.floor(value.getMonth() / 3) + 1} ${value.getFullYear()}`;
+  }
+};
+
+// One point per bucket from the start of the range to its end, in date
+// order, with empty buckets kept at zero.
+export const buildSeries = (
+  transactions: AnalyticsTransaction[],
+  range: DateRange,
+  granularity: Granularity
+): SeriesPoint[] => {
+  const points = new Map<string, SeriesPoint>();
+
+  for (let start = getBucketStart(range.start, granularity); start <= range.end; ) {
+    const next = getNextBucketStart(start, granularity);
+    points.set(start, {
+      key: start,
+      label: getBucketLabel(start, granularity),
+      start,
+      end: addDays(next, -1),
+      income: 0,
+      expense: 0,
+      net: 0,
+      cumulativeNet: 0,
+    });
+    start = next;
+  }
+
+  transactions.forEach((t) => {
+    const point = points.get(getBucketStart(t.transaction_date, granularity));
+    if (!point) return;
+    const amount = parseFloat(String(t.amount));
+    if (t.type === 'income') {
+      point.income += amount;
+    } else {
+      point.expense += amount;
+    }
+  });
+
+  let running = 0;
+  return Array.from(points.values()).map((point) => {
+    const net = point.income - point.expense;
+    running += net;
+    return { ...point, net, cumulativeNet: running };
+  });
+};
+
+// Categories beyond this many are folded into "Other" so a donut stays legible.
+const MAX_SHARES = 6;
+
+export const buildCategoryShares = (
+  transactions: AnalyticsTransaction[],
+  type: Transaction['type']
+): CategoryShare[] => {
+  const totals = new Map<string, CategoryShare>();
+
+  transactions
+    .filter((t) => t.type === type)
+    .forEach((t) => {
+      const key = t.category_id || 'uncategorized';
+      const share = totals.get(key) || { key, name: t.categories?.name || 'Uncategorized', value: 0 };
+      share.value += parseFloat(String(t.amount));
+      totals.set(key, share);
+    });
+
+  const sorted = Array.from(totals.values()).sort((a, b) => b.value - a.value);
+  if (sorted.length <= MAX_SHARES) return sorted;
+
+  const other = sorted.slice(MAX_SHARES - 1).reduce((sum, s) => sum + s.value, 0);
+  return [...sorted.slice(0, MAX_SHARES - 1), { key: 'other', name: 'Other', value: other }];
+};
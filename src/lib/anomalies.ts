@@ -0,0 +1,104 @@
+import { Transaction } from './supabase';
+import { addDays, today } from './dates';
+import { fetchTransactionsBetween } from './transactionQuery';
+
+export type BaselineTransaction = Pick<Transaction, 'id' | 'type' | 'amount' | 'category_id'>;
+
+export interface CategoryBaseline {
+  // Typical amount for the category.
+  median: number;
+  // Median absolute deviation of log10(amount), so spread is relative.
+  spread: number;
+  count: number;
+}
+
+export interface Anomaly {
+  baseline: CategoryBaseline;
+  // How many times the typical amount this one is; below 1 when smaller.
+  ratio: number;
+}
+
+// How far back baselines look.
+export const BASELINE_DAYS = 365;
+
+// Categories with fewer past entries than this are never flagged.
+const MIN_SAMPLES = 5;
+
+// Modified z-score above which an amount is unusual.
+const Z_THRESHOLD = 3.5;
+
+// Amounts within this factor of the typical amount are never flagged, so a
+// category of near-identical amounts does not flag small changes.
+const MIN_RATIO = 3;
+
+export const getBaselineKey = (t: Pick<Transaction, 'type' | 'category_id'>) =>
+  `${t.type}:${t.category_id || 'uncategorized'}`;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Median and spread of each category's amounts on a log scale. Both are
+// robust, so a single mistyped entry barely moves the baseline it is
+// checked against.
+export const buildBaselines = (transactions: BaselineTransaction[]) => {
+  const amounts = new Map<string, number[]>();
+
+  transactions.forEach((t) => {
+    const amount = parseFloat(String(t.amount));
+    if (!(amount > 0)) return;
+    const key = getBaselineKey(t);
+    amounts.set(key, [...(amounts.get(key) || []), Math.log10(amount)]);
+  });
+
+  const baselines = new Map<string, CategoryBaseline>();
+  amounts.forEach((logs, key) => {
+    if (logs.length < MIN_SAMPLES) return;
+    const center = median(logs);
+    baselines.set(key, {
+      median: Math.pow(10, center),
+      spread: median(logs.map((value) => Math.abs(value - center))),
+      count: logs.length,
+    });
+  });
+  return baselines;
+};
+
+export const detectAnomaly = (
+  t: Pick<Transaction, 'type' | 'amount' | 'category_id'>,
+  baselines: Map<string, CategoryBaseline>
+): Anomaly | null => {
+  const baseline = baselines.get(getBaselineKey(t));
+  const amount = parseFloat(String(t.amount));
+  if (!baseline || !(amount > 0)) return null;
+
+  const distance = Math.abs(Math.log10(amount / baseline.median));
+  // 1.4826 scales the deviation to match a standard deviation.
+  const limit = Math.max(Z_THRESHOLD * 1.4826 * baseline.spread, Math.log10(MIN_RATIO));
+  return distance > limit ? { baseline, ratio: amount / baseline.median } : null;
+};
+
+// Baselines from the last year of transactions, leaving out `excludeId` so
+// an edited entry is not compared with itself.
+export const fetchBaselines = async (excludeId?: string) => {
+  const to = today();
+  const history = await fetchTransactionsBetween<BaselineTransaction>(
+    addDays(to, -(BASELINE_DAYS - 1)),
+    to,
+    'id, type, amount, category_id'
+  );
+  return buildBaselines(history.filter((t) => t.id !== excludeId));
+};
+
+export const describeAnomaly = (anomaly: Anomaly) => {
+  const typical = new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    minimumFractionDigits: 0,
+  }).format(Math.round(anomaly.baseline.median));
+  const factor = anomaly.ratio >= 1 ? anomaly.ratio : 1 / anomaly.ratio;
+  const times = factor.toLocaleString('id-ID', { maximumFractionDigits: factor < 10 ? 1 : 0 });
+  return `About ${times}× ${anomaly.ratio >= 1 ? 'the' : 'below the'} usual ${typical}`;
+};
@@ -0,0 +1,145 @@
+import { supabase, Budget, Category, Transaction } from './supabase';
+import { DateRange, addMonths, countDays, endOfMonth, parseDateString } from './dates';
+import { fetchTransactionsBetween } from './transactionQuery';
+
+export type BudgetWithCategory = Budget & {
+  categories: Pick<Category, 'name'> | null;
+};
+
+export type BudgetTransaction = Pick<Transaction, 'id' | 'type' | 'amount' | 'category_id' | 'transaction_date'>;
+
+export interface BudgetMonth {
+  // First day of the month.
+  month: string;
+  limit: number;
+  // Unspent budget brought forward from earlier months.
+  carriedOver: number;
+  available: number;
+  spent: number;
+  // Negative when the month is over budget.
+  remaining: number;
+}
+
+export interface BudgetLine {
+  budget: BudgetWithCategory;
+  planned: number;
+  actual: number;
+}
+
+export type BudgetStatus = 'under' | 'near' | 'over';
+
+// Share of the available budget at which a month counts as nearly spent.
+export const NEAR_LIMIT = 0.8;
+
+export const getMonthStart = (date: string) => `${date.slice(0, 7)}-01`;
+
+export const getBudgetStatus = (month: Pick<BudgetMonth, 'available' | 'spent'>): BudgetStatus => {
+  if (month.spent > month.available) return 'over';
+  return month.available > 0 && month.spent >= month.available * NEAR_LIMIT ? 'near' : 'under';
+};
+
+const sumSpent = (transactions: BudgetTransaction[], categoryId: string, from: string, to: string) =>
+  transactions
+    .filter(
+      (t) =>
+        t.type === 'expense' &&
+        t.category_id === categoryId &&
+        t.transaction_date >= from &&
+        t.transaction_date <= to
+    )
+    .reduce((sum, t) => sum + parseFloat(String(t.amount)), 0);
+
+// The budget for `month`, or null before the budget starts. With rollover,
+// whatever a month leaves unspent is added to the next one; overspending is
+// absorbed by the month it happens in.
+export const buildBudgetMonth = (
+  budget: Budget,
+  transactions: BudgetTransaction[],
+  month: string
+): BudgetMonth | null => {
+  if (month < budget.start_month) return null;
+
+  const limit = parseFloat(String(budget.monthly_limit));
+  let carriedOver = 0;
+  if (budget.rollover) {
+    for (let current = budget.start_month; current < month; current = addMonths(current, 1)) {
+      const spent = sumSpent(transactions, budget.category_id, current, endOfMonth(parseDateString(current)));
+      carriedOver = Math.max(0, limit + carriedOver - spent);
+    }
+  }
+
+  const spent = sumSpent(transactions, budget.category_id, month, endOfMonth(parseDateString(month)));
+  const available = limit + carriedOver;
+  return { month, limit, carriedOver, available, spent, remaining: available - spent };
+};
+
+// Expense transactions needed to work out `month` for these budgets: rollover
+// budgets need every month since they started.
+export const fetchBudgetTransactions = async (budgets: Budget[], month: string) => {
+  const from = budgets
+    .filter((b) => b.rollover)
+    .reduce((earliest, b) => (b.start_month < earliest ? b.start_month : earliest), month);
+
+  const transactions = await fetchTransactionsBetween<BudgetTransaction>(
+    from,
+    endOfMonth(parseDateString(month)),
+    'id, type, amount, category_id, transaction_date'
+  );
+  return transactions.filter((t) => t.type === 'expense');
+};
+
+// The category's budget for the month `date` falls in, leaving out
+// `excludeId` so an edited expense is not counted twice.
+export const fetchCategoryBudgetMonth = async (categoryId: string, date: string, excludeId?: string) => {
+  const { data, error } = await supabase.from('budgets').select('*').eq('category_id', categoryId).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const month = getMonthStart(date);
+  const transactions = await fetchBudgetTransactions([data as Budget], month);
+  return buildBudgetMonth(
+    data as Budget,
+    transactions.filter((t) => t.id !== excludeId),
+    month
+  );
+};
+
+// The planned spend for an arbitrary period: each month's limit, prorated
+// by how many of its days the period covers. Rollover is left out, since
+// it depends on spending outside the period. Days before the budget starts
+// count towards neither the plan nor the actual.
+export const getPlannedForRange = (budget: Budget, range: DateRange) => {
+  const limit = parseFloat(String(budget.monthly_limit));
+  let planned = 0;
+
+  for (let month = getMonthStart(range.start); month <= range.end; month = addMonths(month, 1)) {
+    if (month < budget.start_month) continue;
+    const monthEnd = endOfMonth(parseDateString(month));
+    const from = range.start > month ? range.start : month;
+    const to = range.end < monthEnd ? range.end : monthEnd;
+    planned += (limit * countDays(from, to)) / countDays(month, monthEnd);
+  }
+
+  return planned;
+};
+
+export const buildBudgetLines = (
+  budgets: BudgetWithCategory[],
+  transactions: BudgetTransaction[],
+  range: DateRange
+): BudgetLine[] =>
+  budgets
+    .map((budget) => ({
+      budget,
+      planned: getPlannedForRange(budget, range),
+      actual: sumSpent(
+        transactions,
+        budget.category_id,
+        range.start > budget.start_month ? range.start : budget.start_month,
+        range.end
+      ),
+    }))
+    .sort((a, b) => (a.budget.categories?.name || '').localeCompare(b.budget.categories?.name || ''));
+
+export const formatMonth = (month: string) =>
+  parseDateString(month).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' });
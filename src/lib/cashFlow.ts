@@ -0,0 +1,40 @@
+import { CashFlow, Transaction } from './supabase';
+
+export type CashMovement = Pick<Transaction, 'type' | 'amount' | 'transaction_date'>;
+
+export interface CashFlowPeriodSummary {
+  period: CashFlow;
+  income: number;
+  expense: number;
+  closingBalance: number;
+}
+
+export const isInPeriod = (date: string, period: Pick<CashFlow, 'period_start' | 'period_end'>) =>
+  date >= period.period_start && (!period.period_end || date <= period.period_end);
+
+export const summarizePeriod = (period: CashFlow, transactions: CashMovement[]): CashFlowPeriodSummary => {
+  let income = 0;
+  let expense = 0;
+
+  transactions.forEach((t) => {
+    if (!isInPeriod(t.transaction_date, period)) return;
+    if (t.type === 'income') {
+      income += parseFloat(String(t.amount));
+    } else {
+      expense += parseFloat(String(t.amount));
+    }
+  });
+
+  return {
+    period,
+    income,
+    expense,
+    closingBalance: parseFloat(String(period.opening_balance)) + income - expense,
+  };
+};
+
+// Periods are returned newest first, matching how the Cash Flow page lists them.
+export const summarizePeriods = (periods: CashFlow[], transactions: CashMovement[]) =>
+  [...periods]
+    .sort((a, b) => b.period_start.localeCompare(a.period_start))
+    .map((period) => summarizePeriod(period, transactions));
@@ -0,0 +1,141 @@
+import { CashFlow } from './supabase';
+import { DateRange, addDays } from './dates';
+import { TransactionRow } from './transactionQuery';
+
+export interface FlowLine {
+  key: string;
+  name: string;
+  amount: number;
+}
+
+// A cash period whose recorded opening balance is compared with the balance
+// computed from the transactions before it.
+export interface OpeningBalanceCheck {
+  period: CashFlow;
+  computed: number;
+  difference: number;
+}
+
+export interface CashFlowStatement {
+  openingBalance: number;
+  // The cash period the opening balance is carried forward from, if any.
+  openingPeriod: CashFlow | null;
+  cashIn: FlowLine[];
+  collections: FlowLine[];
+  cashOut: FlowLine[];
+  repayments: FlowLine[];
+  totalIn: number;
+  totalOut: number;
+  closingBalance: number;
+  checks: OpeningBalanceCheck[];
+}
+
+// Used when no cash period exists: the balance is then every transaction
+// ever recorded.
+const LEDGER_START = '1900-01-01';
+
+const getOpeningPeriod = (periods: CashFlow[], range: DateRange) =>
+  [...periods]
+    .filter((p) => p.period_start <= range.start)
+    .sort((a, b) => b.period_start.localeCompare(a.period_start))[0] || null;
+
+// Periods opened after the range starts, up to and including the first one
+// that opens after it ends.
+const getPeriodsToCheck = (periods: CashFlow[], range: DateRange) => {
+  const later = [...periods]
+    .filter((p) => p.period_start > range.start)
+    .sort((a, b) => a.period_start.localeCompare(b.period_start));
+  const next = later.find((p) => p.period_start > range.end);
+  return later.filter((p) => p.period_start <= range.end || p === next);
+};
+
+// The dates the statement needs transactions for.
+export const getStatementFetchRange = (periods: CashFlow[], range: DateRange): DateRange => {
+  const checks = getPeriodsToCheck(periods, range);
+  const lastCheck = checks[checks.length - 1];
+  const checkEnd = lastCheck ? addDays(lastCheck.period_start, -1) : range.end;
+
+  return {
+    start: getOpeningPeriod(periods, range)?.period_start || LEDGER_START,
+    end: checkEnd > range.end ? checkEnd : range.end,
+  };
+};
+
+const netOf = (transactions: TransactionRow[]) =>
+  transactions.reduce(
+    (sum, t) => sum + (t.type === 'income' ? 1 : -1) * parseFloat(String(t.amount)),
+    0
+  );
+
+const groupLines = (transactions: TransactionRow[], getKey: (t: TransactionRow) => { key: string; name: string }) => {
+  const lines = new Map<string, FlowLine>();
+  transactions.forEach((t) => {
+    const { key, name } = getKey(t);
+    const line = lines.get(key) || { key, name, amount: 0 };
+    line.amount += parseFloat(String(t.amount));
+    lines.set(key, line);
+  });
+  return Array.from(lines.values()).sort((a, b) => b.amount - a.amount);
+};
+
+const byCategory = (t: TransactionRow) => ({
+  key: t.category_id || 'uncategorized',
+  name: t.categories?.name || 'Uncategorized',
+});
+
+const byParty = (t: TransactionRow) => ({
+  key: t.debt_payments[0].debt_receivable_id,
+  name: t.debt_payments[0].debts_receivables?.party_name || 'Unknown',
+});
+
+const sumOf = (lines: FlowLine[]) => lines.reduce((sum, l) => sum + l.amount, 0);
+
+// `transactions` must cover `getStatementFetchRange`.
+export const buildCashFlowStatement = (
+  range: DateRange,
+  periods: CashFlow[],
+  transactions: TransactionRow[]
+): CashFlowStatement => {
+  const openingPeriod = getOpeningPeriod(periods, range);
+  const openingBalance =
+    (openingPeriod ? parseFloat(String(openingPeriod.opening_balance)) : 0) +
+    netOf(
+      transactions.filter(
+        (t) => t.transaction_date >= (openingPeriod?.period_start || LEDGER_START) && t.transaction_date < range.start
+      )
+    );
+
+  const inRange = transactions.filter((t) => t.transaction_date >= range.start && t.transaction_date <= range.end);
+  const isPayment = (t: TransactionRow) => t.debt_payments.length > 0;
+
+  const cashIn = groupLines(inRange.filter((t) => t.type === 'income' && !isPayment(t)), byCategory);
+  const collections = groupLines(inRange.filter((t) => t.type === 'income' && isPayment(t)), byParty);
+  const cashOut = groupLines(inRange.filter((t) => t.type === 'expense' && !isPayment(t)), byCategory);
+  const repayments = groupLines(inRange.filter((t) => t.type === 'expense' && isPayment(t)), byParty);
+
+  const totalIn = sumOf(cashIn) + sumOf(collections);
+  const totalOut = sumOf(cashOut) + sumOf(repayments);
+
+  const checks = getPeriodsToCheck(periods, range).map((period) => {
+    const computed =
+      openingBalance +
+      netOf(transactions.filter((t) => t.transaction_date >= range.start && t.transaction_date < period.period_start));
+    return { period, computed, difference: parseFloat(String(period.opening_balance)) - computed };
+  });
+
+  return {
+    openingBalance,
+    openingPeriod,
+    cashIn,
+    collections,
+    cashOut,
+    repayments,
+    totalIn,
+    totalOut,
+    closingBalance: openingBalance + totalIn - totalOut,
+    checks,
+  };
+};
+
+// Differences under one sen are rounding, not a gap.
+export const hasGap = (check: OpeningBalanceCheck) => Math.abs(check.difference) >= 0.01;
@@ -0,0 +1,81 @@
+// Minimal RFC 4180 reader and writer: quoted fields may contain the
+// delimiter, line breaks and doubled quotes.
+
+export type CsvDelimiter = ',' | ';' | '\t';
+
+// Picks whichever candidate splits the first line into the most fields.
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates: CsvDelimiter[] = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+export const parseCsv = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Spreadsheet exports often end with blank lines.
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+};
+
+// Quotes only the fields that need it, so plain values stay readable.
+const formatCsvField = (value: string | number, delimiter: CsvDelimiter) => {
+  const text = String(value);
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const formatCsv = (rows: (string | number)[][], delimiter: CsvDelimiter = ',') =>
+  rows.map((row) => row.map((value) => formatCsvField(value, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+
+// The byte order mark makes Excel read the file as UTF-8 rather than the
+// system code page.
+export const downloadCsv = (rows: (string | number)[][], fileName: string, delimiter: CsvDelimiter = ',') => {
+  const blob = new Blob(['\ufeff' + formatCsv(rows, delimiter)], { type: 'text/csv;charset=utf-8' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,166 @@
+// Dates are stored as `yyyy-mm-dd` strings in the user's local calendar.
+// Avoid `toISOString()` here: it converts to UTC and shifts the day for
+// users east of Greenwich (WIB/WITA/WIT).
+
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+export const toDateString = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// `yyyy-mm-dd hh:mm:ss` in local time, for exports.
+export const toDateTimeString = (date: Date) => {
+  const time = [date.getHours(), date.getMinutes(), date.getSeconds()]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+  return `${toDateString(date)} ${time}`;
+};
+
+export const parseDateString = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const today = () => toDateString(new Date());
+
+// Number of days from `from` to `to`, counting both.
+export const countDays = (from: string, to: string) =>
+  Math.round((parseDateString(to).getTime() - parseDateString(from).getTime()) / 86400000) + 1;
+
+export const addDays = (value: string, days: number) => {
+  const date = parseDateString(value);
+  date.setDate(date.getDate() + days);
+  return toDateString(date);
+};
+
+// Keeps the day of month where possible: the 31st falls on the last day of
+// shorter months, and Feb 29 on Feb 28.
+export const addMonths = (value: string, months: number) => {
+  const date = parseDateString(value);
+  const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+  target.setDate(Math.min(date.getDate(), lastDay));
+  return toDateString(target);
+};
+
+export const startOfMonth = (date: Date) => toDateString(new Date(date.getFullYear(), date.getMonth(), 1));
+
+export const endOfMonth = (date: Date) => toDateString(new Date(date.getFullYear(), date.getMonth() + 1, 0));
+
+// The period of equal length ending the day before `range` starts. A range of
+// whole calendar months maps to the same number of preceding months, so
+// March compares with February rather than with the last 31 days.
+export const getPreviousPeriod = (range: DateRange): DateRange => {
+  const start = parseDateString(range.start);
+  const end = parseDateString(range.end);
+
+  if (start.getDate() === 1 && range.end === endOfMonth(end)) {
+    const months = (end.getFullYear() - start.getFullYear()) * 12 + end.getMonth() - start.getMonth() + 1;
+    return { start: addMonths(range.start, -months), end: addDays(range.start, -1) };
+  }
+
+  const days = Math.round((end.getTime() - start.getTime()) / 86400000) + 1;
+  return { start: addDays(range.start, -days), end: addDays(range.start, -1) };
+};
+
+export type DatePreset =
+  | 'thisMonth'
+  | 'lastMonth'
+  | 'thisQuarter'
+  | 'lastQuarter'
+  | 'yearToDate'
+  | 'thisFiscalYear'
+  | 'lastFiscalYear'
+  | 'last3Months'
+  | 'last6Months'
+  | 'last12Months'
+  | 'last24Months';
+
+export const datePresetLabels: Record<DatePreset, string> = {
+  thisMonth: 'This Month',
+  lastMonth: 'Last Month',
+  thisQuarter: 'This Quarter',
+  lastQuarter: 'Last Quarter',
+  yearToDate: 'Year to Date',
+  thisFiscalYear: 'This Fiscal Year',
+  lastFiscalYear: 'Last Fiscal Year',
+  last3Months: 'Last 3 Months',
+  last6Months: 'Last 6 Months',
+  last12Months: 'Last 12 Months',
+  last24Months: 'Last 24 Months',
+};
+
+// The calendar-aligned presets most pages offer.
+export const datePresets: DatePreset[] = [
+  'thisMonth',
+  'lastMonth',
+  'thisQuarter',
+  'lastQuarter',
+  'yearToDate',
+  'thisFiscalYear',
+  'lastFiscalYear',
+];
+
+// Rolling windows of whole months, counting the current one, up to today.
+export const trailingPresets: DatePreset[] = ['last3Months', 'last6Months', 'last12Months', 'last24Months'];
+
+const trailingMonths: Partial<Record<DatePreset, number>> = {
+  last3Months: 3,
+  last6Months: 6,
+  last12Months: 12,
+  last24Months: 24,
+};
+
+// Whole calendar months from `first` to `last`, both relative to `now`.
+const monthsRange = (now: Date, first: number, last: number): DateRange => ({
+  start: toDateString(new Date(now.getFullYear(), now.getMonth() + first, 1)),
+  end: toDateString(new Date(now.getFullYear(), now.getMonth() + last + 1, 0)),
+});
+
+// Quarters follow the calendar; `fiscalYearStartMonth` is 1-based.
+export const getPresetRange = (preset: DatePreset, fiscalYearStartMonth = 1, now = new Date()): DateRange => {
+  const quarterOffset = now.getMonth() % 3;
+  const fiscalOffset = (now.getMonth() - (fiscalYearStartMonth - 1) + 12) % 12;
+
+  switch (preset) {
+    case 'thisMonth':
+      return monthsRange(now, 0, 0);
+    case 'lastMonth':
+      return monthsRange(now, -1, -1);
+    case 'thisQuarter':
+      return monthsRange(now, -quarterOffset, 2 - quarterOffset);
+    case 'lastQuarter':
+      return monthsRange(now, -quarterOffset - 3, -quarterOffset - 1);
+    case 'yearToDate':
+      return { start: toDateString(new Date(now.getFullYear(), 0, 1)), end: toDateString(now) };
+    case 'thisFiscalYear':
+      return monthsRange(now, -fiscalOffset, 11 - fiscalOffset);
+    case 'lastFiscalYear':
+      return monthsRange(now, -fiscalOffset - 12, -fiscalOffset - 1);
+    default:
+      return { start: monthsRange(now, 1 - (trailingMonths[preset] || 1), 0).start, end: toDateString(now) };
+  }
+};
+
+// The preset among `presets` that produces exactly `range`, if any.
+export const findPreset = (range: DateRange, presets: DatePreset[], fiscalYearStartMonth = 1, now = new Date()) =>
+  presets.find((preset) => {
+    const presetRange = getPresetRange(preset, fiscalYearStartMonth, now);
+    return presetRange.start === range.start && presetRange.end === range.end;
+  }) || null;
+
+// The same dates a year earlier. A range ending on the last day of a month
+// still does, so Feb 29 maps to Feb 28 and Feb 28 to Feb 29 in leap years.
+export const getSamePeriodLastYear = (range: DateRange): DateRange => {
+  const end = addMonths(range.end, -12);
+  return {
+    start: addMonths(range.start, -12),
+    end: range.end === endOfMonth(parseDateString(range.end)) ? endOfMonth(parseDateString(end)) : end,
+  };
+};
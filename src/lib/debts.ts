@@ -0,0 +1,186 @@
+import { supabase, DebtInstallment, DebtPayment, DebtReceivable, Transaction } from './supabase';
+import { addDays, addMonths, today } from './dates';
+import { fetchAllPages } from './paging';
+
+export const getDebtStatus = (amount: number, paidAmount: number): DebtReceivable['status'] => {
+  if (paidAmount >= amount) return 'paid';
+  if (paidAmount > 0) return 'partial';
+  return 'pending';
+};
+
+export const getRemaining = (item: Pick<DebtReceivable, 'amount' | 'paid_amount'>) =>
+  parseFloat(String(item.amount)) - parseFloat(String(item.paid_amount));
+
+export interface OutstandingItem {
+  item: DebtReceivable;
+  paid: number;
+  outstanding: number;
+}
+
+// Every item of `type` that existed on `asOf` and was not settled by then,
+// counting only payments made on or before that date.
+export const outstandingItemsAsOf = (
+  items: DebtReceivable[],
+  payments: Pick<DebtPayment, 'debt_receivable_id' | 'amount' | 'payment_date'>[],
+  type: DebtReceivable['type'],
+  asOf: string
+): OutstandingItem[] =>
+  items
+    .filter((i) => i.type === type && i.created_at.slice(0, 10) <= asOf)
+    .map((item) => {
+      const paid = payments
+        .filter((p) => p.debt_receivable_id === item.id && p.payment_date <= asOf)
+        .reduce((total, p) => total + parseFloat(String(p.amount)), 0);
+      return { item, paid, outstanding: Math.max(parseFloat(String(item.amount)) - paid, 0) };
+    })
+    .filter((i) => i.outstanding > 0);
+
+export const fetchOutstandingItems = async (asOf: string) => {
+  const [items, payments] = await Promise.all([
+    fetchAllPages<DebtReceivable>((from, to) =>
+      supabase.from('debts_receivables').select('*').order('due_date', { ascending: true }).order('id').range(from, to)
+    ),
+    fetchAllPages<Pick<DebtPayment, 'debt_receivable_id' | 'amount' | 'payment_date'>>((from, to) =>
+      supabase
+        .from('debt_payments')
+        .select('debt_receivable_id, amount, payment_date')
+        .lte('payment_date', asOf)
+        .order('id')
+        .range(from, to)
+    ),
+  ]);
+
+  return {
+    receivables: outstandingItemsAsOf(items, payments, 'receivable', asOf),
+    debts: outstandingItemsAsOf(items, payments, 'debt', asOf),
+  };
+};
+
+// Outstanding balance of every item that existed on `asOf`.
+export const outstandingAsOf = (
+  items: DebtReceivable[],
+  payments: Pick<DebtPayment, 'debt_receivable_id' | 'amount' | 'payment_date'>[],
+  type: DebtReceivable['type'],
+  asOf: string
+) => outstandingItemsAsOf(items, payments, type, asOf).reduce((sum, i) => sum + i.outstanding, 0);
+
+// Collecting a receivable is income; repaying a debt is an expense.
+export const getPaymentTransactionType = (item: Pick<DebtReceivable, 'type'>): Transaction['type'] =>
+  item.type === 'receivable' ? 'income' : 'expense';
+
+export const describePayment = (item: Pick<DebtReceivable, 'type' | 'party_name'>, note?: string | null) => {
+  const label = item.type === 'receivable' ? `Payment from ${item.party_name}` : `Payment to ${item.party_name}`;
+  return note ? `${label} - ${note}` : label;
+};
+
+// Deletes the payment with the transaction it posted and brings the item's
+// totals back in line, in one transaction.
+export const deletePayment = async (payment: Pick<DebtPayment, 'id'>) => {
+  const { error } = await supabase.rpc('delete_debt_payment', { p_payment_id: payment.id });
+  if (error) throw error;
+};
+
+// Payments cascade with the item, but their posted transactions do not, so
+// the function removes those too.
+export const deleteDebtReceivable = async (id: string) => {
+  const { error } = await supabase.rpc('delete_debt_receivable', { p_id: id });
+  if (error) throw error;
+};
+
+export type InstallmentInterval = 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
+
+export const installmentIntervalLabels: Record<InstallmentInterval, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Every 3 months',
+};
+
+export type InstallmentFields = Pick<DebtInstallment, 'sequence' | 'due_date' | 'amount'>;
+
+export interface InstallmentState {
+  installment: InstallmentFields;
+  paid: number;
+  remaining: number;
+  overdue: boolean;
+}
+
+const getInstallmentDueDate = (firstDueDate: string, interval: InstallmentInterval, index: number) => {
+  switch (interval) {
+    case 'weekly':
+      return addDays(firstDueDate, index * 7);
+    case 'biweekly':
+      return addDays(firstDueDate, index * 14);
+    case 'monthly':
+      return addMonths(firstDueDate, index);
+    case 'quarterly':
+      return addMonths(firstDueDate, index * 3);
+  }
+};
+
+// Splits `total` into `count` equal installments in whole rupiah; the last
+// installment absorbs the rounding difference.
+export const buildInstallmentSchedule = (
+  total: number,
+  count: number,
+  interval: InstallmentInterval,
+  firstDueDate: string
+): InstallmentFields[] => {
+  const base = Math.floor(total / count);
+  return Array.from({ length: count }, (_, index) => ({
+    sequence: index + 1,
+    due_date: getInstallmentDueDate(firstDueDate, interval, index),
+    amount: index === count - 1 ? Math.round((total - base * (count - 1)) * 100) / 100 : base,
+  }));
+};
+
+// Applies the total paid to the installments in order, so the earliest
+// installments are settled first.
+export const allocateInstallments = (
+  installments: InstallmentFields[],
+  paidAmount: number,
+  asOf: string = today()
+): InstallmentState[] => {
+  let left = paidAmount;
+
+  return [...installments]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((installment) => {
+      const amount = parseFloat(String(installment.amount));
+      const paid = Math.min(left, amount);
+      left -= paid;
+      const remaining = Math.round((amount - paid) * 100) / 100;
+      return { installment, paid, remaining, overdue: remaining > 0 && installment.due_date < asOf };
+    });
+};
+
+export const isOverdue = (
+  item: Pick<DebtReceivable, 'due_date' | 'status' | 'paid_amount'>,
+  installments: InstallmentFields[]
+) => {
+  if (installments.length === 0) return item.status !== 'paid' && item.due_date < today();
+  return allocateInstallments(installments, parseFloat(String(item.paid_amount))).some((s) => s.overdue);
+};
+
+// Saves the item, creating it when `id` is null, and replaces its schedule
+// in the same transaction; a null `installments` keeps the schedule as it
+// is. Payments are allocated on the fly, so there is nothing to carry over
+// from the old installments.
+export const saveDebtReceivable = async (
+  id: string | null,
+  item: Pick<DebtReceivable, 'type' | 'party_name' | 'amount' | 'due_date' | 'description' | 'status'>,
+  installments: Pick<DebtInstallment, 'due_date' | 'amount'>[] | null
+) => {
+  const { error } = await supabase.rpc('save_debt_receivable', {
+    p_id: id,
+    p_type: item.type,
+    p_party_name: item.party_name,
+    p_amount: item.amount,
+    p_due_date: item.due_date,
+    p_description: item.description,
+    p_status: item.status,
+    p_installments: installments,
+  });
+
+  if (error) throw error;
+};
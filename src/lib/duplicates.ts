@@ -0,0 +1,128 @@
+import { supabase, Transaction } from './supabase';
+import { fetchAllPages } from './paging';
+
+export type DuplicateFields = Pick<Transaction, 'type' | 'amount' | 'transaction_date' | 'description'>;
+
+export type DuplicateAction = 'skip' | 'merge' | 'keep';
+
+// Descriptions at least this similar (Dice coefficient over character
+// bigrams) count as the same entry.
+export const SIMILARITY_THRESHOLD = 0.6;
+
+const normalize = (value: string | null) =>
+  (value || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const bigrams = (value: string) => {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < value.length - 1; i++) {
+    const gram = value.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+};
+
+export const descriptionSimilarity = (a: string | null, b: string | null) => {
+  const left = normalize(a);
+  const right = normalize(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) || 0);
+  });
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+};
+
+export const isLikelyDuplicate = (a: DuplicateFields, b: DuplicateFields) =>
+  a.type === b.type &&
+  a.transaction_date === b.transaction_date &&
+  parseFloat(String(a.amount)) === parseFloat(String(b.amount)) &&
+  descriptionSimilarity(a.description, b.description) >= SIMILARITY_THRESHOLD;
+
+// Loads existing transactions on the given dates so candidates can be
+// checked against them without fetching the whole ledger.
+export const fetchTransactionsOnDates = async (dates: string[]): Promise<Transaction[]> => {
+  const unique = Array.from(new Set(dates));
+  const found: Transaction[] = [];
+
+  for (let i = 0; i < unique.length; i += 100) {
+    const chunk = unique.slice(i, i + 100);
+    found.push(
+      ...(await fetchAllPages<Transaction>((from, to) =>
+        supabase.from('transactions').select('*').in('transaction_date', chunk).order('id').range(from, to)
+      ))
+    );
+  }
+
+  return found;
+};
+
+export const findMatches = <T extends DuplicateFields>(candidate: DuplicateFields, existing: T[]) =>
+  existing.filter((t) => isLikelyDuplicate(candidate, t));
+
+// Fields to update on `existing` so it absorbs `incoming`: a missing category
+// or description is filled in, nothing already set is overwritten.
+export const getMergeUpdate = (
+  existing: Pick<Transaction, 'category_id' | 'description'>,
+  incoming: Pick<Transaction, 'category_id' | 'description'>
+) => {
+  const update: Partial<Pick<Transaction, 'category_id' | 'description'>> = {};
+  if (!existing.category_id && incoming.category_id) update.category_id = incoming.category_id;
+  if (!existing.description && incoming.description) update.description = incoming.description;
+  return update;
+};
+
+export const mergeInto = async (
+  existing: Pick<Transaction, 'id' | 'category_id' | 'description'>,
+  incoming: Pick<Transaction, 'category_id' | 'description'>
+) => {
+  const update = getMergeUpdate(existing, incoming);
+  if (Object.keys(update).length === 0) return;
+
+  const { error } = await supabase
+    .from('transactions')
+    .update({ ...update, updated_at: new Date().toISOString() })
+    .eq('id', existing.id);
+
+  if (error) throw error;
+};
+
+// Identifies a group by its members, so a group dismissed as "not
+// duplicates" comes back if another likely duplicate joins it.
+export const getDuplicateGroupKey = (group: { id: string }[]) =>
+  group
+    .map((t) => t.id)
+    .sort()
+    .join(',');
+
+// Groups transactions that are likely duplicates of one another. Members of a
+// group share date, type and amount and have similar descriptions.
+export const groupDuplicates = <T extends DuplicateFields & { id: string }>(transactions: T[]): T[][] => {
+  const buckets = new Map<string, T[]>();
+  transactions.forEach((t) => {
+    const key = `${t.transaction_date}|${t.type}|${parseFloat(String(t.amount))}`;
+    buckets.set(key, [...(buckets.get(key) || []), t]);
+  });
+
+  const groups: T[][] = [];
+  buckets.forEach((bucket) => {
+    const assigned = new Set<string>();
+    bucket.forEach((t) => {
+      if (assigned.has(t.id)) return;
+      const group = [t];
+      assigned.add(t.id);
+      bucket.forEach((other) => {
+        if (!assigned.has(other.id) && group.some((g) => isLikelyDuplicate(g, other))) {
+          group.push(other);
+          assigned.add(other.id);
+        }
+      });
+      if (group.length > 1) groups.push(group);
+    });
+  });
+
+  return groups;
+};
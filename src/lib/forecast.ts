@@ -0,0 +1,154 @@
+import { Category, DebtInstallment, DebtPayment, DebtReceivable, Transaction } from './supabase';
+import { addDays, countDays } from './dates';
+import { Occurrence } from './recurring';
+import { allocateInstallments, getRemaining } from './debts';
+
+export type ForecastHorizon = 30 | 60 | 90;
+
+export const forecastHorizons: ForecastHorizon[] = [30, 60, 90];
+
+// How far back the category averages look.
+export const HISTORY_DAYS = 90;
+
+const DAYS_PER_MONTH = 365 / 12;
+
+export type ForecastTransaction = Pick<Transaction, 'type' | 'amount' | 'category_id' | 'recurring_id'> & {
+  categories: Pick<Category, 'name'> | null;
+  debt_payments: Pick<DebtPayment, 'id'>[];
+};
+
+export type ForecastDebt = DebtReceivable & {
+  debt_installments: DebtInstallment[];
+};
+
+export interface CategoryAssumption {
+  key: string;
+  name: string;
+  type: Transaction['type'];
+  historicalMonthly: number;
+  // What the forecast uses; starts at the historical figure.
+  monthly: number;
+}
+
+export interface ForecastEvent {
+  date: string;
+  label: string;
+  // Positive for money coming in.
+  amount: number;
+  source: 'recurring' | 'receivable' | 'debt';
+}
+
+export interface ForecastDay {
+  date: string;
+  inflow: number;
+  outflow: number;
+  balance: number;
+  events: ForecastEvent[];
+}
+
+export interface Forecast {
+  openingBalance: number;
+  days: ForecastDay[];
+  lowest: ForecastDay | null;
+  negativeDays: number;
+}
+
+// Days of history the averages are spread over: the full window, or fewer
+// for a business whose first transaction is more recent than that.
+export const getHistoryDays = (firstTransactionDate: string | null, asOf: string) =>
+  firstTransactionDate ? Math.min(HISTORY_DAYS, Math.max(countDays(firstTransactionDate, asOf), 1)) : HISTORY_DAYS;
+
+// Recurring items and debt payments are projected from their own schedules,
+// so they are left out of the averages to avoid counting them twice.
+export const buildCategoryAssumptions = (
+  history: ForecastTransaction[],
+  historyDays = HISTORY_DAYS
+): CategoryAssumption[] => {
+  const totals = new Map<string, CategoryAssumption>();
+
+  history
+    .filter((t) => !t.recurring_id && t.debt_payments.length === 0)
+    .forEach((t) => {
+      const key = `${t.type}:${t.category_id || 'uncategorized'}`;
+      const line = totals.get(key) || {
+        key,
+        name: t.categories?.name || 'Uncategorized',
+        type: t.type,
+        historicalMonthly: 0,
+        monthly: 0,
+      };
+      line.historicalMonthly += (parseFloat(String(t.amount)) / historyDays) * DAYS_PER_MONTH;
+      totals.set(key, line);
+    });
+
+  return Array.from(totals.values())
+    .map((line) => {
+      const historicalMonthly = Math.round(line.historicalMonthly);
+      return { ...line, historicalMonthly, monthly: historicalMonthly };
+    })
+    .sort((a, b) => b.type.localeCompare(a.type) || b.historicalMonthly - a.historicalMonthly);
+};
+
+export const buildRecurringEvents = (occurrences: Occurrence[]): ForecastEvent[] =>
+  occurrences
+    .filter((o) => !o.override?.skip)
+    .map((o) => ({
+      date: o.date,
+      label: o.description || 'Recurring transaction',
+      amount: o.template.type === 'income' ? o.amount : -o.amount,
+      source: 'recurring',
+    }));
+
+// What is still owed on each unpaid item, on the date it falls due. Items
+// with a schedule contribute each unpaid installment; anything already
+// overdue is assumed to settle on `firstDay`.
+export const buildDueEvents = (items: ForecastDebt[], firstDay: string): ForecastEvent[] =>
+  items
+    .filter((item) => item.status !== 'paid')
+    .flatMap((item) => {
+      const dues =
+        item.debt_installments.length > 0
+          ? allocateInstallments(item.debt_installments, parseFloat(String(item.paid_amount)))
+              .filter((s) => s.remaining > 0)
+              .map((s) => ({ date: s.installment.due_date, amount: s.remaining }))
+          : [{ date: item.due_date, amount: getRemaining(item) }];
+
+      return dues.map(({ date, amount }) => ({
+        date: date < firstDay ? firstDay : date,
+        label: `${item.type === 'receivable' ? 'Collect from' : 'Pay'} ${item.party_name}${date < firstDay ? ' (overdue)' : ''}`,
+        amount: item.type === 'receivable' ? amount : -amount,
+        source: item.type,
+      }));
+    });
+
+// Projects the balance day by day from the day after `from`.
+export const buildForecast = (
+  openingBalance: number,
+  from: string,
+  horizon: ForecastHorizon,
+  assumptions: CategoryAssumption[],
+  events: ForecastEvent[]
+): Forecast => {
+  const dailyIn = assumptions.filter((a) => a.type === 'income').reduce((sum, a) => sum + a.monthly, 0) / DAYS_PER_MONTH;
+  const dailyOut = assumptions.filter((a) => a.type === 'expense').reduce((sum, a) => sum + a.monthly, 0) / DAYS_PER_MONTH;
+
+  let balance = openingBalance;
+  const days: ForecastDay[] = [];
+
+  for (let offset = 1; offset <= horizon; offset++) {
+    const date = addDays(from, offset);
+    const dayEvents = events.filter((e) => e.date === date);
+    const inflow = dailyIn + dayEvents.filter((e) => e.amount > 0).reduce((sum, e) => sum + e.amount, 0);
+    const outflow = dailyOut - dayEvents.filter((e) => e.amount < 0).reduce((sum, e) => sum + e.amount, 0);
+    balance += inflow - outflow;
+    days.push({ date, inflow, outflow, balance, events: dayEvents });
+  }
+
+  const lowest = days.reduce<ForecastDay | null>((low, day) => (!low || day.balance < low.balance ? day : low), null);
+  return {
+    openingBalance,
+    days,
+    lowest,
+    negativeDays: days.filter((day) => day.balance < 0).length,
+  };
+};
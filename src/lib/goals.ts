@@ -0,0 +1,99 @@
+import { supabase, Goal, Transaction } from './supabase';
+import { countDays, today } from './dates';
+import { fetchTransactionsBetween } from './transactionQuery';
+
+export type GoalTransaction = Pick<Transaction, 'type' | 'amount' | 'transaction_date'>;
+
+export const goalKindLabels: Record<Goal['kind'], string> = {
+  revenue: 'Revenue',
+  savings: 'Savings',
+};
+
+export interface GoalProgress {
+  goal: Goal;
+  target: number;
+  reached: number;
+  // Zero once the target is reached.
+  remaining: number;
+  percent: number;
+  // Days left to the deadline, counting today.
+  daysLeft: number;
+  // Average needed per remaining day to hit the target; null once it is
+  // reached or there are no days left.
+  requiredDaily: number | null;
+  // Average per day so far; null before the goal starts.
+  currentDaily: number | null;
+}
+
+// Revenue goals count income received; savings goals count income less
+// expenses, i.e. the cash kept over the period.
+export const getGoalAmount = (goal: Goal, transactions: GoalTransaction[], upTo = goal.deadline) =>
+  transactions
+    .filter((t) => t.transaction_date >= goal.start_date && t.transaction_date <= upTo)
+    .reduce((sum, t) => {
+      const amount = parseFloat(String(t.amount));
+      if (t.type === 'income') return sum + amount;
+      return goal.kind === 'savings' ? sum - amount : sum;
+    }, 0);
+
+export const buildGoalProgress = (goal: Goal, transactions: GoalTransaction[], asOf = today()): GoalProgress => {
+  const target = parseFloat(String(goal.target_amount));
+  const upTo = asOf < goal.deadline ? asOf : goal.deadline;
+  const reached = getGoalAmount(goal, transactions, upTo);
+  const remaining = Math.max(0, target - reached);
+
+  const from = asOf > goal.start_date ? asOf : goal.start_date;
+  const daysLeft = from <= goal.deadline ? countDays(from, goal.deadline) : 0;
+  const daysElapsed = asOf >= goal.start_date ? countDays(goal.start_date, upTo) : 0;
+
+  return {
+    goal,
+    target,
+    reached,
+    remaining,
+    percent: target > 0 ? (reached / target) * 100 : 0,
+    daysLeft,
+    requiredDaily: remaining > 0 && daysLeft > 0 ? remaining / daysLeft : null,
+    currentDaily: daysElapsed > 0 ? reached / daysElapsed : null,
+  };
+};
+
+// Closes every goal whose deadline has passed, recording the amount reached
+// by the deadline and whether the target was met.
+// Returns the number of goals archived.
+export const archiveEndedGoals = async () => {
+  const { data, error } = await supabase
+    .from('goals')
+    .select('*')
+    .is('archived_at', null)
+    .lt('deadline', today());
+
+  if (error) throw error;
+
+  const goals = (data || []) as Goal[];
+  if (goals.length === 0) return 0;
+
+  // One read covers every goal being archived.
+  const from = goals.reduce((earliest, g) => (g.start_date < earliest ? g.start_date : earliest), goals[0].start_date);
+  const to = goals.reduce((latest, g) => (g.deadline > latest ? g.deadline : latest), goals[0].deadline);
+  const transactions = await fetchTransactionsBetween<GoalTransaction>(from, to, 'type, amount, transaction_date');
+
+  for (const goal of goals) {
+    const finalAmount = getGoalAmount(goal, transactions);
+    const now = new Date().toISOString();
+
+    const { error: updateError } = await supabase
+      .from('goals')
+      .update({
+        archived_at: now,
+        final_amount: finalAmount,
+        outcome: finalAmount >= parseFloat(String(goal.target_amount)) ? 'achieved' : 'missed',
+        updated_at: now,
+      })
+      .eq('id', goal.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return goals.length;
+};
@@ -0,0 +1,9 @@
+// Context one page hands to another when linking to it, e.g. the debt whose
+// posted transactions should be shown.
+export interface NavigationParams {
+  debtReceivableId?: string;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export type NavigateHandler = (page: string, params?: NavigationParams) => void;
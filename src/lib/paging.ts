@@ -0,0 +1,21 @@
+import { PostgrestError } from '@supabase/supabase-js';
+
+// The API returns at most this many rows per request.
+export const FETCH_PAGE_SIZE = 1000;
+
+// Reads every row of a query in pages, so results are not cut off at the
+// API's row limit. `page` builds the query for rows `from` to `to`
+// (zero-based and inclusive, as in Supabase's `range`) and must order them
+// the same way on every call.
+export const fetchAllPages = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>
+): Promise<T[]> => {
+  const rows: T[] = [];
+
+  for (let offset = 0; ; offset += FETCH_PAGE_SIZE) {
+    const { data, error } = await page(offset, offset + FETCH_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < FETCH_PAGE_SIZE) return rows;
+  }
+};
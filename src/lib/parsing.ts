@@ -0,0 +1,83 @@
+import { toDateString } from './dates';
+
+// Parses amounts as typed in Indonesian spreadsheets and POS exports, e.g.
+// "Rp 1.250.000,00", "1.250.000", "1250000" or "-75.000". A lone separator
+// followed by exactly three digits is treated as a thousands separator.
+export const parseAmount = (value: string): number | null => {
+  let cleaned = value.replace(/rp\.?/i, '').replace(/\s/g, '');
+  let negative = false;
+
+  if (/^\(.*\)$/.test(cleaned)) {
+    negative = true;
+    cleaned = cleaned.slice(1, -1);
+  }
+  if (cleaned.startsWith('-')) {
+    negative = true;
+    cleaned = cleaned.slice(1);
+  }
+  if (!/^[\d.,]+$/.test(cleaned)) return null;
+
+  const lastDot = cleaned.lastIndexOf('.');
+  const lastComma = cleaned.lastIndexOf(',');
+  let normalized: string;
+
+  if (lastDot >= 0 && lastComma >= 0) {
+    // Whichever separator comes last is the decimal mark.
+    normalized = lastComma > lastDot
+      ? cleaned.replace(/\./g, '').replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastComma >= 0) {
+    const parts = cleaned.split(',');
+    normalized = parts.length === 2 && parts[1].length !== 3
+      ? cleaned.replace(',', '.')
+      : cleaned.replace(/,/g, '');
+  } else if (lastDot >= 0) {
+    const parts = cleaned.split('.');
+    normalized = parts.length === 2 && parts[1].length !== 3
+      ? cleaned
+      : cleaned.replace(/\./g, '');
+  } else {
+    normalized = cleaned;
+  }
+
+  const amount = parseFloat(normalized);
+  if (isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+// Accepts dd/mm/yyyy, dd-mm-yyyy, dd.mm.yyyy (two-digit years are 20xx) and
+// ISO yyyy-mm-dd. Returns a `yyyy-mm-dd` string or null for invalid dates.
+export const parseDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const local = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (local) {
+    [day, month, year] = [Number(local[1]), Number(local[2]), Number(local[3])];
+    if (year < 100) year += 2000;
+  } else {
+    return null;
+  }
+
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+    return null;
+  }
+  return toDateString(date);
+};
+
+const incomeWords = ['income', 'pemasukan', 'masuk', 'pendapatan', 'in'];
+const expenseWords = ['expense', 'pengeluaran', 'keluar', 'biaya', 'out'];
+
+export const parseTransactionType = (value: string): 'income' | 'expense' | null => {
+  const normalized = value.trim().toLowerCase();
+  if (incomeWords.includes(normalized)) return 'income';
+  if (expenseWords.includes(normalized)) return 'expense';
+  return null;
+};
@@ -0,0 +1,163 @@
+import type { jsPDF } from 'jspdf';
+import { Profile } from './supabase';
+
+export interface PdfRow {
+  cells: string[];
+  style?: 'heading' | 'subtotal' | 'total';
+  indent?: boolean;
+}
+
+export interface PdfSection {
+  title?: string;
+  columns: string[];
+  rows: PdfRow[];
+  note?: string;
+}
+
+export interface PdfReport {
+  title: string;
+  period: string;
+  sections: PdfSection[];
+  fileName: string;
+}
+
+const PAGE_MARGIN = 15;
+const HEADER_HEIGHT = 38;
+const FOOTER_HEIGHT = 15;
+
+// The standard PDF fonts only cover Latin-1, so characters Intl and the UI
+// use for spacing and ranges are swapped for plain equivalents.
+const toPdfText = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ').replace(/[\u2013\u2014]/g, '-');
+
+const drawLetterhead = (doc: jsPDF, report: PdfReport, profile: Profile | null) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  let y = PAGE_MARGIN + 5;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(toPdfText(profile?.business_name || profile?.full_name || 'NotaNusa'), PAGE_MARGIN, y);
+
+  if (profile?.business_name && profile.full_name) {
+    y += 5;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(toPdfText(`Owner: ${profile.full_name}`), PAGE_MARGIN, y);
+  }
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(toPdfText(report.title), pageWidth - PAGE_MARGIN, PAGE_MARGIN + 5, { align: 'right' });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(toPdfText(report.period), pageWidth - PAGE_MARGIN, PAGE_MARGIN + 10, { align: 'right' });
+
+  doc.setLineWidth(0.5);
+  doc.line(PAGE_MARGIN, PAGE_MARGIN + 16, pageWidth - PAGE_MARGIN, PAGE_MARGIN + 16);
+};
+
+const drawFooter = (doc: jsPDF, page: number, pageCount: number, generatedAt: string) => {
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const y = doc.internal.pageSize.getHeight() - PAGE_MARGIN + 5;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  doc.text(toPdfText(`Generated ${generatedAt}`), PAGE_MARGIN, y);
+  doc.text(`Page ${page} of ${pageCount}`, pageWidth - PAGE_MARGIN, y, { align: 'right' });
+  doc.setTextColor(0);
+};
+
+const drawSignatureBlock = (doc: jsPDF, y: number, profile: Profile | null) => {
+  const x = doc.internal.pageSize.getWidth() - PAGE_MARGIN - 60;
+  const signedOn = new Date().toLocaleDateString('id-ID', { day: 'numeric', month: 'long', year: 'numeric' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(toPdfText(signedOn), x, y);
+  doc.text('Prepared by,', x, y + 5);
+  doc.line(x, y + 28, x + 60, y + 28);
+  doc.setFont('helvetica', 'bold');
+  doc.text(toPdfText(profile?.full_name || ''), x, y + 33);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Owner', x, y + 38);
+};
+
+// Builds the PDF in the browser and starts the download. jsPDF is large, so
+// it is only loaded when someone actually exports.
+export const exportReportPdf = async (report: PdfReport, profile: Profile | null) => {
+  const [{ jsPDF }, { autoTable }] = await Promise.all([import('jspdf'), import('jspdf-autotable')]);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const generatedAt = new Date().toLocaleString('id-ID');
+  let y = PAGE_MARGIN + HEADER_HEIGHT;
+
+  report.sections.forEach((section) => {
+    if (section.title) {
+      if (y > pageHeight - FOOTER_HEIGHT - 30) {
+        doc.addPage();
+        y = PAGE_MARGIN + HEADER_HEIGHT;
+      }
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(11);
+      doc.text(toPdfText(section.title), PAGE_MARGIN, y);
+      y += 3;
+    }
+
+    autoTable(doc, {
+      startY: y,
+      margin: { top: PAGE_MARGIN + HEADER_HEIGHT, bottom: FOOTER_HEIGHT + PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN },
+      theme: 'plain',
+      head: [section.columns.map(toPdfText)],
+      body: section.rows.map((row) => row.cells.map(toPdfText)),
+      styles: { font: 'helvetica', fontSize: 9, cellPadding: 1.5 },
+      headStyles: { fontStyle: 'bold', fillColor: [243, 244, 246] },
+      columnStyles: Object.fromEntries(
+        section.columns.slice(1).map((_, index) => [index + 1, { halign: 'right' as const }])
+      ),
+      didParseCell: (data) => {
+        if (data.section !== 'body') return;
+        const row = section.rows[data.row.index];
+        if (row.style === 'heading') {
+          data.cell.styles.fontStyle = 'bold';
+          data.cell.styles.fillColor = [249, 250, 251];
+        } else if (row.style === 'subtotal') {
+          data.cell.styles.fontStyle = 'bold';
+        } else if (row.style === 'total') {
+          data.cell.styles.fontStyle = 'bold';
+          data.cell.styles.fillColor = [239, 246, 255];
+        }
+        if (row.indent && data.column.index === 0) {
+          data.cell.styles.cellPadding = { top: 1.5, bottom: 1.5, right: 1.5, left: 6 };
+        }
+      },
+      didDrawPage: (data) => {
+        y = data.cursor?.y ?? y;
+      },
+    });
+
+    y += 6;
+    if (section.note) {
+      doc.setFont('helvetica', 'italic');
+      doc.setFontSize(8);
+      const lines = doc.splitTextToSize(toPdfText(section.note), doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2);
+      doc.text(lines, PAGE_MARGIN, y);
+      y += lines.length * 4 + 4;
+    }
+  });
+
+  if (y > pageHeight - FOOTER_HEIGHT - PAGE_MARGIN - 45) {
+    doc.addPage();
+    y = PAGE_MARGIN + HEADER_HEIGHT;
+  }
+  drawSignatureBlock(doc, y + 5, profile);
+
+  // Letterhead and page numbers go on last, once the page count is known.
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    drawLetterhead(doc, report, profile);
+    drawFooter(doc, page, pageCount, generatedAt);
+  }
+
+  doc.save(report.fileName);
+};
@@ -0,0 +1,129 @@
+import { Category, Transaction } from './supabase';
+import { DateRange, getPreviousPeriod, getSamePeriodLastYear } from './dates';
+
+export type CompareMode = 'none' | 'previous' | 'lastYear' | 'custom';
+
+export const compareModeLabels: Record<CompareMode, string> = {
+  none: 'No comparison',
+  previous: 'Previous period',
+  lastYear: 'Same period last year',
+  custom: 'Custom period',
+};
+
+export type SummaryTransaction = Pick<Transaction, 'type' | 'amount' | 'category_id'> & {
+  categories: Pick<Category, 'name'> | null;
+};
+
+export interface CategoryTotal {
+  key: string;
+  name: string;
+  type: Transaction['type'];
+  total: number;
+}
+
+export interface PeriodSummary {
+  totalIncome: number;
+  totalExpense: number;
+  profitLoss: number;
+  transactionCount: number;
+  categoryBreakdown: CategoryTotal[];
+}
+
+export interface Delta {
+  current: number;
+  comparison: number;
+  change: number;
+  // Null when the comparison value is zero.
+  percentChange: number | null;
+}
+
+export interface CategoryDelta extends Delta {
+  key: string;
+  name: string;
+  type: Transaction['type'];
+  // Set when the category has transactions in only one of the two periods.
+  onlyIn: 'current' | 'comparison' | null;
+}
+
+export interface PeriodComparison {
+  totalIncome: Delta;
+  totalExpense: Delta;
+  profitLoss: Delta;
+  transactionCount: Delta;
+  categories: CategoryDelta[];
+}
+
+export const getComparisonRange = (mode: CompareMode, range: DateRange, custom: DateRange): DateRange | null => {
+  switch (mode) {
+    case 'none':
+      return null;
+    case 'previous':
+      return getPreviousPeriod(range);
+    case 'lastYear':
+      return getSamePeriodLastYear(range);
+    case 'custom':
+      return custom.start && custom.end && custom.start <= custom.end ? custom : null;
+  }
+};
+
+export const summarizePeriod = (transactions: SummaryTransaction[]): PeriodSummary => {
+  const categories = new Map<string, CategoryTotal>();
+  let totalIncome = 0;
+  let totalExpense = 0;
+
+  transactions.forEach((t) => {
+    const amount = parseFloat(String(t.amount));
+    if (t.type === 'income') {
+      totalIncome += amount;
+    } else {
+      totalExpense += amount;
+    }
+
+    const key = t.category_id || `uncategorized-${t.type}`;
+    const line = categories.get(key) || { key, name: t.categories?.name || 'Uncategorized', type: t.type, total: 0 };
+    line.total += amount;
+    categories.set(key, line);
+  });
+
+  return {
+    totalIncome,
+    totalExpense,
+    profitLoss: totalIncome - totalExpense,
+    transactionCount: transactions.length,
+    categoryBreakdown: Array.from(categories.values()).sort((a, b) => b.total - a.total),
+  };
+};
+
+export const toDelta = (current: number, comparison: number): Delta => ({
+  current,
+  comparison,
+  change: current - comparison,
+  percentChange: comparison !== 0 ? ((current - comparison) / Math.abs(comparison)) * 100 : null,
+});
+
+export const comparePeriods = (current: PeriodSummary, comparison: PeriodSummary): PeriodComparison => {
+  const lines = new Map<string, CategoryDelta>();
+
+  current.categoryBreakdown.forEach((c) => {
+    lines.set(c.key, { ...toDelta(c.total, 0), key: c.key, name: c.name, type: c.type, onlyIn: 'current' });
+  });
+  comparison.categoryBreakdown.forEach((c) => {
+    const existing = lines.get(c.key);
+    lines.set(
+      c.key,
+      existing
+        ? { ...existing, ...toDelta(existing.current, c.total), onlyIn: null }
+        : { ...toDelta(0, c.total), key: c.key, name: c.name, type: c.type, onlyIn: 'comparison' }
+    );
+  });
+
+  return {
+    totalIncome: toDelta(current.totalIncome, comparison.totalIncome),
+    totalExpense: toDelta(current.totalExpense, comparison.totalExpense),
+    profitLoss: toDelta(current.profitLoss, comparison.profitLoss),
+    transactionCount: toDelta(current.transactionCount, comparison.transactionCount),
+    categories: Array.from(lines.values()).sort(
+      (a, b) => a.type.localeCompare(b.type) || Math.max(b.current, b.comparison) - Math.max(a.current, a.comparison)
+    ),
+  };
+};
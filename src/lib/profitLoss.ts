@@ -0,0 +1,94 @@
+import { Category, Transaction } from './supabase';
+
+export type StatementTransaction = Pick<Transaction, 'type' | 'amount' | 'category_id'> & {
+  categories: Pick<Category, 'name' | 'is_cost_of_sales'> | null;
+};
+
+export interface StatementAmounts {
+  current: number;
+  previous: number;
+}
+
+export interface StatementLine extends StatementAmounts {
+  key: string;
+  name: string;
+}
+
+export interface StatementSection {
+  lines: StatementLine[];
+  total: StatementAmounts;
+}
+
+export interface ProfitLossStatement {
+  revenue: StatementSection;
+  costOfSales: StatementSection;
+  grossProfit: StatementAmounts;
+  operatingExpenses: StatementSection;
+  netProfit: StatementAmounts;
+}
+
+type SectionKey = 'revenue' | 'costOfSales' | 'operatingExpenses';
+
+const getSection = (t: StatementTransaction): SectionKey => {
+  if (t.type === 'income') return 'revenue';
+  return t.categories?.is_cost_of_sales ? 'costOfSales' : 'operatingExpenses';
+};
+
+const buildSection = (
+  key: SectionKey,
+  current: StatementTransaction[],
+  previous: StatementTransaction[]
+): StatementSection => {
+  const lines = new Map<string, StatementLine>();
+  const add = (t: StatementTransaction, period: keyof StatementAmounts) => {
+    if (getSection(t) !== key) return;
+    const lineKey = t.category_id || `uncategorized-${t.type}`;
+    const line = lines.get(lineKey) || {
+      key: lineKey,
+      name: t.categories?.name || 'Uncategorized',
+      current: 0,
+      previous: 0,
+    };
+    line[period] += parseFloat(String(t.amount));
+    lines.set(lineKey, line);
+  };
+
+  current.forEach((t) => add(t, 'current'));
+  previous.forEach((t) => add(t, 'previous'));
+
+  const sorted = Array.from(lines.values()).sort((a, b) => b.current - a.current || b.previous - a.previous);
+  return {
+    lines: sorted,
+    total: {
+      current: sorted.reduce((sum, l) => sum + l.current, 0),
+      previous: sorted.reduce((sum, l) => sum + l.previous, 0),
+    },
+  };
+};
+
+const subtract = (a: StatementAmounts, b: StatementAmounts): StatementAmounts => ({
+  current: a.current - b.current,
+  previous: a.previous - b.previous,
+});
+
+export const buildProfitLoss = (
+  current: StatementTransaction[],
+  previous: StatementTransaction[]
+): ProfitLossStatement => {
+  const revenue = buildSection('revenue', current, previous);
+  const costOfSales = buildSection('costOfSales', current, previous);
+  const operatingExpenses = buildSection('operatingExpenses', current, previous);
+  const grossProfit = subtract(revenue.total, costOfSales.total);
+
+  return {
+    revenue,
+    costOfSales,
+    grossProfit,
+    operatingExpenses,
+    netProfit: subtract(grossProfit, operatingExpenses.total),
+  };
+};
+
+// Share of revenue, or null when there was no revenue to compare against.
+export const percentOfRevenue = (amount: number, revenue: number) =>
+  revenue === 0 ? null : (amount / revenue) * 100;
@@ -0,0 +1,136 @@
+import { supabase, RecurringOccurrenceOverride, RecurringTransaction } from './supabase';
+import { addDays, addMonths, today } from './dates';
+
+export type RecurringWithOverrides = RecurringTransaction & {
+  recurring_occurrence_overrides: RecurringOccurrenceOverride[];
+};
+
+export interface Occurrence {
+  template: RecurringWithOverrides;
+  date: string;
+  amount: number;
+  description: string | null;
+  override: RecurringOccurrenceOverride | undefined;
+}
+
+export const frequencyLabels: Record<RecurringTransaction['frequency'], string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+// Date of the `index`-th occurrence, counted from `start_date`. Computing from
+// the start rather than the previous occurrence stops month-end clamping from
+// drifting the schedule.
+const getOccurrenceDate = (template: Pick<RecurringTransaction, 'frequency' | 'start_date'>, index: number) => {
+  switch (template.frequency) {
+    case 'daily':
+      return addDays(template.start_date, index);
+    case 'weekly':
+      return addDays(template.start_date, index * 7);
+    case 'monthly':
+      return addMonths(template.start_date, index);
+    case 'yearly':
+      return addMonths(template.start_date, index * 12);
+  }
+};
+
+// Occurrence dates between `from` and `to` inclusive, within the template's
+// start and end dates.
+export const listOccurrenceDates = (
+  template: Pick<RecurringTransaction, 'frequency' | 'start_date' | 'end_date'>,
+  from: string,
+  to: string
+) => {
+  const last = template.end_date && template.end_date < to ? template.end_date : to;
+  const dates: string[] = [];
+
+  for (let index = 0; ; index++) {
+    const date = getOccurrenceDate(template, index);
+    if (date > last) break;
+    if (date >= from) dates.push(date);
+  }
+
+  return dates;
+};
+
+export const buildOccurrence = (template: RecurringWithOverrides, date: string): Occurrence => {
+  const override = template.recurring_occurrence_overrides.find((o) => o.occurrence_date === date);
+  return {
+    template,
+    date,
+    amount: parseFloat(String(override?.amount ?? template.amount)),
+    description: override?.description ?? template.description,
+    override,
+  };
+};
+
+export const getUpcomingOccurrences = (templates: RecurringWithOverrides[], from: string, to: string) =>
+  templates
+    .filter((t) => t.active)
+    .flatMap((t) => listOccurrenceDates(t, from, to).map((date) => buildOccurrence(t, date)))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+export const getNextOccurrenceDate = (template: RecurringWithOverrides, from: string) => {
+  const horizon = template.frequency === 'yearly' ? 366 * 2 : 366;
+  return listOccurrenceDates(template, from, addDays(from, horizon)).find(
+    (date) => !template.recurring_occurrence_overrides.some((o) => o.occurrence_date === date && o.skip)
+  );
+};
+
+// Turns every due occurrence into a transaction, catching up on periods
+// missed while nobody was logged in. The unique index on
+// (recurring_id, occurrence_date) makes concurrent runs harmless.
+// Returns the number of transactions created.
+export const materializeDueOccurrences = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('recurring_transactions')
+    .select('*, recurring_occurrence_overrides(*)')
+    .eq('active', true);
+
+  if (error) throw error;
+
+  const upTo = today();
+  let created = 0;
+
+  for (const template of (data || []) as RecurringWithOverrides[]) {
+    const from = template.last_materialized_date
+      ? addDays(template.last_materialized_date, 1)
+      : template.start_date;
+    if (from > upTo) continue;
+
+    const rows = listOccurrenceDates(template, from, upTo)
+      .map((date) => buildOccurrence(template, date))
+      .filter((o) => !o.override?.skip)
+      .map((o) => ({
+        user_id: userId,
+        category_id: template.category_id,
+        type: template.type,
+        amount: o.amount,
+        description: o.description,
+        transaction_date: o.date,
+        recurring_id: template.id,
+        occurrence_date: o.date,
+      }));
+
+    if (rows.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('transactions')
+        .upsert(rows, { onConflict: 'recurring_id,occurrence_date', ignoreDuplicates: true })
+        .select('id');
+
+      if (insertError) throw insertError;
+      created += (inserted || []).length;
+    }
+
+    const { error: updateError } = await supabase
+      .from('recurring_transactions')
+      .update({ last_materialized_date: upTo, updated_at: new Date().toISOString() })
+      .eq('id', template.id);
+
+    if (updateError) throw updateError;
+  }
+
+  return created;
+};
@@ -0,0 +1,164 @@
+import { EventPeriod, Transaction } from './supabase';
+import { DateRange, addDays, parseDateString } from './dates';
+import { Delta, toDelta } from './periodComparison';
+
+export type SeasonalityTransaction = Pick<Transaction, 'type' | 'amount' | 'transaction_date'>;
+
+export interface DailyTotals {
+  date: string;
+  income: number;
+  expense: number;
+  net: number;
+}
+
+export interface PatternPoint {
+  key: string;
+  label: string;
+  // Days of the range that fall in this group.
+  days: number;
+  averageIncome: number;
+  averageExpense: number;
+  averageNet: number;
+}
+
+export interface HeatmapWeek {
+  start: string;
+  // Monday to Sunday; null for days outside the range.
+  days: (DailyTotals | null)[];
+}
+
+interface DailyAverages {
+  income: number;
+  expense: number;
+  net: number;
+}
+
+// Each delta compares the event's daily average with the baseline's.
+export interface EventComparison {
+  event: EventPeriod;
+  baseline: DateRange;
+  income: Delta;
+  expense: Delta;
+  net: Delta;
+}
+
+// Weeks of the month, by day of month; the last one is the short tail.
+const weekOfMonthBuckets = [
+  { key: 'week1', label: '1–7', from: 1, to: 7 },
+  { key: 'week2', label: '8–14', from: 8, to: 14 },
+  { key: 'week3', label: '15–21', from: 15, to: 21 },
+  { key: 'week4', label: '22–28', from: 22, to: 28 },
+  { key: 'week5', label: '29–31', from: 29, to: 31 },
+];
+
+// Number of weeks before an event that it is compared with.
+export const BASELINE_WEEKS = 4;
+
+// Monday is 0.
+const getWeekday = (date: string) => (parseDateString(date).getDay() + 6) % 7;
+
+// 2024-01-01 was a Monday.
+export const getWeekdayLabel = (weekday: number) =>
+  parseDateString(addDays('2024-01-01', weekday)).toLocaleDateString('id-ID', { weekday: 'short' });
+
+// One entry per day of the range in date order, with quiet days at zero.
+export const buildDailyTotals = (transactions: SeasonalityTransaction[], range: DateRange): DailyTotals[] => {
+  const days = new Map<string, DailyTotals>();
+  for (let date = range.start; date <= range.end; date = addDays(date, 1)) {
+    days.set(date, { date, income: 0, expense: 0, net: 0 });
+  }
+
+  transactions.forEach((t) => {
+    const day = days.get(t.transaction_date);
+    if (!day) return;
+    const amount = parseFloat(String(t.amount));
+    if (t.type === 'income') {
+      day.income += amount;
+      day.net += amount;
+    } else {
+      day.expense += amount;
+      day.net -= amount;
+    }
+  });
+
+  return Array.from(days.values());
+};
+
+const average = (days: DailyTotals[]): DailyAverages => {
+  const count = days.length || 1;
+  return {
+    income: days.reduce((sum, d) => sum + d.income, 0) / count,
+    expense: days.reduce((sum, d) => sum + d.expense, 0) / count,
+    net: days.reduce((sum, d) => sum + d.net, 0) / count,
+  };
+};
+
+const toPatternPoint = (key: string, label: string, days: DailyTotals[]): PatternPoint => {
+  const averages = average(days);
+  return {
+    key,
+    label,
+    days: days.length,
+    averageIncome: averages.income,
+    averageExpense: averages.expense,
+    averageNet: averages.net,
+  };
+};
+
+// Averages per weekday, Monday first. Days without sales count as zero, so
+// a weekday the shop is closed shows as low rather than missing.
+export const buildWeekdayPattern = (days: DailyTotals[]): PatternPoint[] =>
+  Array.from({ length: 7 }, (_, weekday) =>
+    toPatternPoint(
+      String(weekday),
+      getWeekdayLabel(weekday),
+      days.filter((d) => getWeekday(d.date) === weekday)
+    )
+  );
+
+export const buildWeekOfMonthPattern = (days: DailyTotals[]): PatternPoint[] =>
+  weekOfMonthBuckets.map(({ key, label, from, to }) =>
+    toPatternPoint(
+      key,
+      label,
+      days.filter((d) => {
+        const dayOfMonth = parseDateString(d.date).getDate();
+        return dayOfMonth >= from && dayOfMonth <= to;
+      })
+    )
+  );
+
+// Calendar weeks covering the range, for a grid with one column per week.
+export const buildHeatmap = (days: DailyTotals[]): HeatmapWeek[] => {
+  const weeks: HeatmapWeek[] = [];
+
+  days.forEach((day) => {
+    const weekday = getWeekday(day.date);
+    if (weeks.length === 0 || weekday === 0) {
+      weeks.push({ start: addDays(day.date, -weekday), days: Array(7).fill(null) });
+    }
+    weeks[weeks.length - 1].days[weekday] = day;
+  });
+
+  return weeks;
+};
+
+export const getBaselineRange = (event: Pick<EventPeriod, 'start_date'>): DateRange => ({
+  start: addDays(event.start_date, -BASELINE_WEEKS * 7),
+  end: addDays(event.start_date, -1),
+});
+
+// Daily averages during the event against the weeks just before it, so
+// events of different lengths compare on the same footing.
+export const compareEvent = (event: EventPeriod, transactions: SeasonalityTransaction[]): EventComparison => {
+  const baseline = getBaselineRange(event);
+  const during = average(buildDailyTotals(transactions, { start: event.start_date, end: event.end_date }));
+  const before = average(buildDailyTotals(transactions, baseline));
+  return {
+    event,
+    baseline,
+    income: toDelta(during.income, before.income),
+    expense: toDelta(during.expense, before.expense),
+    net: toDelta(during.net, before.net),
+  };
+};
@@ -10,6 +10,7 @@ export interface Profile {
   full_name: string;
   role: string;
   business_name: string | null;
+  fiscal_year_start_month: number;
   created_at: string;
   updated_at: string;
 }
@@ -19,6 +20,7 @@ export interface Category {
   user_id: string;
   name: string;
   type: 'income' | 'expense';
+  is_cost_of_sales: boolean;
   created_at: string;
 }
 
@@ -30,6 +32,9 @@ export interface Transaction {
   amount: number;
   description: string | null;
   transaction_date: string;
+  recurring_id: string | null;
+  occurrence_date: string | null;
+  anomaly_reviewed_at: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -56,3 +61,86 @@ export interface CashFlow {
   period_end: string | null;
   created_at: string;
 }
+
+export interface DebtPayment {
+  id: string;
+  user_id: string;
+  debt_receivable_id: string;
+  amount: number;
+  payment_date: string;
+  note: string | null;
+  transaction_id: string | null;
+  created_at: string;
+}
+
+export interface DebtInstallment {
+  id: string;
+  user_id: string;
+  debt_receivable_id: string;
+  sequence: number;
+  due_date: string;
+  amount: number;
+  created_at: string;
+}
+
+export interface RecurringTransaction {
+  id: string;
+  user_id: string;
+  category_id: string | null;
+  type: 'income' | 'expense';
+  amount: number;
+  description: string | null;
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  start_date: string;
+  end_date: string | null;
+  last_materialized_date: string | null;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RecurringOccurrenceOverride {
+  id: string;
+  user_id: string;
+  recurring_id: string;
+  occurrence_date: string;
+  skip: boolean;
+  amount: number | null;
+  description: string | null;
+  created_at: string;
+}
+
+export interface EventPeriod {
+  id: string;
+  user_id: string;
+  name: string;
+  start_date: string;
+  end_date: string;
+  created_at: string;
+}
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  category_id: string;
+  monthly_limit: number;
+  rollover: boolean;
+  start_month: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Goal {
+  id: string;
+  user_id: string;
+  name: string;
+  kind: 'revenue' | 'savings';
+  target_amount: number;
+  start_date: string;
+  deadline: string;
+  archived_at: string | null;
+  final_amount: number | null;
+  outcome: 'achieved' | 'missed' | null;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,123 @@
+import { supabase, Category, Transaction } from './supabase';
+import { parseAmount, parseDate, parseTransactionType } from './parsing';
+
+export type ImportField = 'type' | 'amount' | 'transaction_date' | 'description' | 'category';
+
+// Column index in the file for each field, or null when not mapped.
+export type ColumnMapping = Record<ImportField, number | null>;
+
+// Used when no type column is mapped: a fixed type, or the sign of the amount.
+export type DefaultImportType = 'income' | 'expense' | 'sign';
+
+export interface ImportRow {
+  line: number;
+  type: Transaction['type'] | null;
+  amount: number | null;
+  transactionDate: string | null;
+  description: string;
+  categoryName: string;
+  errors: string[];
+}
+
+export interface ImportRecord {
+  line: number;
+  data: Pick<Transaction, 'type' | 'amount' | 'transaction_date' | 'description' | 'category_id'>;
+}
+
+export interface ImportResult {
+  inserted: number;
+  skipped: { line: number; reason: string }[];
+}
+
+export const IMPORT_BATCH_SIZE = 500;
+
+const headerHints: Record<ImportField, string[]> = {
+  type: ['type', 'tipe', 'jenis'],
+  amount: ['amount', 'jumlah', 'nominal', 'total', 'nilai'],
+  transaction_date: ['date', 'tanggal', 'tgl', 'transaction_date'],
+  description: ['description', 'keterangan', 'deskripsi', 'catatan', 'note', 'uraian'],
+  category: ['category', 'kategori'],
+};
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const normalized = headers.map((h) => h.trim().toLowerCase());
+  const find = (field: ImportField) => {
+    const index = normalized.findIndex((h) => headerHints[field].some((hint) => h.includes(hint)));
+    return index >= 0 ? index : null;
+  };
+
+  return {
+    type: find('type'),
+    amount: find('amount'),
+    transaction_date: find('transaction_date'),
+    description: find('description'),
+    category: find('category'),
+  };
+};
+
+export const buildImportRows = (
+  rows: string[][],
+  mapping: ColumnMapping,
+  defaultType: DefaultImportType,
+  firstLine: number
+): ImportRow[] =>
+  rows.map((row, index) => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? '' : (row[column] || '').trim();
+    };
+    const errors: string[] = [];
+
+    let amount = parseAmount(cell('amount'));
+    if (amount === null) errors.push(cell('amount') ? `Invalid amount "${cell('amount')}"` : 'Missing amount');
+
+    let type: Transaction['type'] | null;
+    if (mapping.type !== null) {
+      type = parseTransactionType(cell('type'));
+      if (!type) errors.push(cell('type') ? `Unknown type "${cell('type')}"` : 'Missing type');
+    } else if (defaultType === 'sign') {
+      type = amount !== null && amount < 0 ? 'expense' : 'income';
+    } else {
+      type = defaultType;
+    }
+    if (amount !== null) amount = Math.abs(amount);
+    if (amount === 0) errors.push('Amount is zero');
+
+    const transactionDate = parseDate(cell('transaction_date'));
+    if (!transactionDate) {
+      errors.push(cell('transaction_date') ? `Invalid date "${cell('transaction_date')}"` : 'Missing date');
+    }
+
+    return {
+      line: firstLine + index,
+      type,
+      amount,
+      transactionDate,
+      description: cell('description'),
+      categoryName: cell('category'),
+      errors,
+    };
+  });
+
+export const categoryKey = (name: string, type: Category['type']) => `${type}:${name.trim().toLowerCase()}`;
+
+// Inserts records in batches; a failed batch is reported line by line and
+// does not stop the remaining batches.
+export const insertInBatches = async (userId: string, records: ImportRecord[]): Promise<ImportResult> => {
+  const result: ImportResult = { inserted: 0, skipped: [] };
+
+  for (let i = 0; i < records.length; i += IMPORT_BATCH_SIZE) {
+    const batch = records.slice(i, i + IMPORT_BATCH_SIZE);
+    const { error } = await supabase
+      .from('transactions')
+      .insert(batch.map((r) => ({ ...r.data, user_id: userId })));
+
+    if (error) {
+      batch.forEach((r) => result.skipped.push({ line: r.line, reason: error.message }));
+    } else {
+      result.inserted += batch.length;
+    }
+  }
+
+  return result;
+};
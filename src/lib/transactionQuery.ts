@@ -0,0 +1,137 @@
+import { supabase, Category, DebtPayment, DebtReceivable, Transaction } from './supabase';
+import { FETCH_PAGE_SIZE, fetchAllPages } from './paging';
+
+export type TransactionRow = Transaction & {
+  categories: Pick<Category, 'name'> | null;
+  debt_payments: (Pick<DebtPayment, 'debt_receivable_id'> & {
+    debts_receivables: Pick<DebtReceivable, 'type' | 'party_name'> | null;
+  })[];
+};
+
+export interface TransactionFilters {
+  type: 'all' | 'income' | 'expense';
+  dateFrom: string;
+  dateTo: string;
+  search: string;
+  categoryIds: string[];
+  // Takes precedence over `categoryIds`.
+  uncategorizedOnly: boolean;
+  debtReceivableId?: string;
+}
+
+export type TransactionSortColumn = 'transaction_date' | 'amount' | 'type' | 'category';
+
+export interface TransactionSort {
+  column: TransactionSortColumn;
+  ascending: boolean;
+}
+
+export interface TransactionTotals {
+  totalIncome: number;
+  totalExpense: number;
+  count: number;
+}
+
+export const emptyFilters: TransactionFilters = {
+  type: 'all',
+  dateFrom: '',
+  dateTo: '',
+  search: '',
+  categoryIds: [],
+  uncategorizedOnly: false,
+};
+
+export const defaultSort: TransactionSort = { column: 'transaction_date', ascending: false };
+
+const buildQuery = (filters: TransactionFilters, sort: TransactionSort) => {
+  // An inner join on payments restricts rows to those posted from the debt.
+  const paymentsJoin = filters.debtReceivableId ? 'debt_payments!inner' : 'debt_payments';
+  let query = supabase
+    .from('transactions')
+    .select(`*, categories(name), ${paymentsJoin}(debt_receivable_id, debts_receivables(type, party_name))`);
+
+  if (filters.type !== 'all') query = query.eq('type', filters.type);
+  if (filters.dateFrom) query = query.gte('transaction_date', filters.dateFrom);
+  if (filters.dateTo) query = query.lte('transaction_date', filters.dateTo);
+  if (filters.search.trim()) query = query.ilike('description', `%${filters.search.trim()}%`);
+  if (filters.uncategorizedOnly) {
+    query = query.is('category_id', null);
+  } else if (filters.categoryIds.length > 0) {
+    query = query.in('category_id', filters.categoryIds);
+  }
+  if (filters.debtReceivableId) {
+    query = query.eq('debt_payments.debt_receivable_id', filters.debtReceivableId);
+  }
+
+  const column = sort.column === 'category' ? 'categories(name)' : sort.column;
+  return query
+    .order(column, { ascending: sort.ascending, nullsFirst: false })
+    .order('created_at', { ascending: false })
+    .order('id');
+};
+
+// `from` and `to` are zero-based and inclusive, as in Supabase's `range`.
+export const fetchTransactionPage = async (
+  filters: TransactionFilters,
+  sort: TransactionSort,
+  from: number,
+  to: number
+): Promise<TransactionRow[]> => {
+  const { data, error } = await buildQuery(filters, sort).range(from, to);
+  if (error) throw error;
+  return data || [];
+};
+
+// Every row matching the filters, for exports.
+export const fetchAllTransactions = async (
+  filters: TransactionFilters,
+  sort: TransactionSort
+): Promise<TransactionRow[]> => {
+  const rows: TransactionRow[] = [];
+
+  for (let offset = 0; ; offset += FETCH_PAGE_SIZE) {
+    const page = await fetchTransactionPage(filters, sort, offset, offset + FETCH_PAGE_SIZE - 1);
+    rows.push(...page);
+    if (page.length < FETCH_PAGE_SIZE) return rows;
+  }
+};
+
+export const fetchTransactionTotals = async (filters: TransactionFilters): Promise<TransactionTotals> => {
+  const { data, error } = await supabase
+    .rpc('transaction_totals', {
+      p_type: filters.type === 'all' ? null : filters.type,
+      p_date_from: filters.dateFrom || null,
+      p_date_to: filters.dateTo || null,
+      p_search: filters.search.trim() || null,
+      p_debt_receivable_id: filters.debtReceivableId || null,
+      p_category_ids: filters.categoryIds.length > 0 ? filters.categoryIds : null,
+      p_uncategorized_only: filters.uncategorizedOnly,
+    })
+    .single();
+
+  if (error) throw error;
+
+  const totals = data as { total_income: number; total_expense: number; transaction_count: number };
+  return {
+    totalIncome: parseFloat(String(totals.total_income)),
+    totalExpense: parseFloat(String(totals.total_expense)),
+    count: Number(totals.transaction_count),
+  };
+};
+
+// Every transaction dated within the range, read in pages so reports are not
+// cut off at the API's row limit. A null bound leaves that end of the range
+// open.
+export const fetchTransactionsBetween = <T = Transaction>(
+  from: string | null,
+  to: string | null,
+  columns = '*'
+): Promise<T[]> =>
+  fetchAllPages<T>(async (start, end) => {
+    let query = supabase.from('transactions').select(columns);
+    if (from) query = query.gte('transaction_date', from);
+    if (to) query = query.lte('transaction_date', to);
+
+    const { data, error } = await query.order('transaction_date').order('id').range(start, end);
+    return { data: data as T[] | null, error };
+  });
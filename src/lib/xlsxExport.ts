@@ -0,0 +1,174 @@
+import type { Worksheet } from 'exceljs';
+import { Category, Transaction } from './supabase';
+import { OutstandingItem } from './debts';
+
+export type WorkbookTransaction = Transaction & {
+  categories: Pick<Category, 'name'> | null;
+};
+
+export interface WorkbookSummaryLine {
+  label: string;
+  value: number;
+  kind: 'amount' | 'count';
+}
+
+export interface WorkbookData {
+  title: string;
+  // An empty bound means the transactions are not limited on that side.
+  period: { start: string; end: string };
+  summary: WorkbookSummaryLine[];
+  transactions: WorkbookTransaction[];
+  receivables: OutstandingItem[];
+  debts: OutstandingItem[];
+  outstandingAsOf: string;
+  fileName: string;
+}
+
+const AMOUNT_FORMAT = '"Rp"#,##0;-"Rp"#,##0';
+const DATE_FORMAT = 'dd/mm/yyyy';
+const TIMESTAMP_FORMAT = 'dd/mm/yyyy hh:mm';
+
+// Excel cells carry no time zone, so a calendar date is written as that date
+// at midnight UTC; a local Date would shift by the browser's offset.
+const toDateCell = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// Timestamps keep the wall-clock time the user saw in the app.
+const toTimestampCell = (value: string) => {
+  const local = new Date(value);
+  return new Date(
+    Date.UTC(
+      local.getFullYear(),
+      local.getMonth(),
+      local.getDate(),
+      local.getHours(),
+      local.getMinutes(),
+      local.getSeconds()
+    )
+  );
+};
+
+const addTable = (
+  sheet: Worksheet,
+  columns: { header: string; key: string; width: number; numFmt?: string }[],
+  rows: Record<string, string | number | Date | null>[]
+) => {
+  sheet.columns = columns.map(({ header, key, width, numFmt }) => ({
+    header,
+    key,
+    width,
+    style: numFmt ? { numFmt } : {},
+  }));
+  sheet.addRows(rows);
+  sheet.getRow(1).font = { bold: true };
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+  sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+};
+
+const buildCategoryRows = (transactions: WorkbookTransaction[]) => {
+  const totals = new Map<string, { category: string; type: string; count: number; total: number }>();
+
+  transactions.forEach((t) => {
+    const category = t.categories?.name || 'Uncategorized';
+    const key = `${t.type}:${category}`;
+    const existing = totals.get(key) || { category, type: t.type, count: 0, total: 0 };
+    existing.count += 1;
+    existing.total += parseFloat(String(t.amount));
+    totals.set(key, existing);
+  });
+
+  return Array.from(totals.values()).sort((a, b) => a.type.localeCompare(b.type) || b.total - a.total);
+};
+
+const buildOutstandingRows = (items: OutstandingItem[]) =>
+  items.map(({ item, paid, outstanding }) => ({
+    type: item.type === 'receivable' ? 'Receivable' : 'Debt',
+    party: item.party_name,
+    description: item.description,
+    amount: parseFloat(String(item.amount)),
+    paid,
+    outstanding,
+    dueDate: toDateCell(item.due_date),
+  }));
+
+// Builds the workbook in the browser and starts the download. exceljs is
+// large, so it is only loaded when someone actually exports.
+export const exportWorkbook = async (data: WorkbookData) => {
+  const { default: ExcelJS } = await import('exceljs');
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = 'NotaNusa';
+  workbook.created = new Date();
+
+  const summary = workbook.addWorksheet('Summary');
+  summary.columns = [
+    { key: 'label', width: 28 },
+    { key: 'value', width: 20 },
+  ];
+  summary.addRow([data.title]).font = { bold: true, size: 14 };
+  summary.addRow(['Period start', data.period.start ? toDateCell(data.period.start) : 'Any']).getCell(2).numFmt =
+    DATE_FORMAT;
+  summary.addRow(['Period end', data.period.end ? toDateCell(data.period.end) : 'Any']).getCell(2).numFmt =
+    DATE_FORMAT;
+  summary.addRow(['Outstanding as of', toDateCell(data.outstandingAsOf)]).getCell(2).numFmt = DATE_FORMAT;
+  summary.addRow([]);
+  data.summary.forEach((line) => {
+    const row = summary.addRow([line.label, line.value]);
+    row.getCell(2).numFmt = line.kind === 'amount' ? AMOUNT_FORMAT : '0';
+  });
+
+  addTable(
+    workbook.addWorksheet('Categories'),
+    [
+      { header: 'Category', key: 'category', width: 28 },
+      { header: 'Type', key: 'type', width: 12 },
+      { header: 'Transactions', key: 'count', width: 14, numFmt: '0' },
+      { header: 'Total', key: 'total', width: 20, numFmt: AMOUNT_FORMAT },
+    ],
+    buildCategoryRows(data.transactions)
+  );
+
+  addTable(
+    workbook.addWorksheet('Transactions'),
+    [
+      { header: 'Date', key: 'date', width: 14, numFmt: DATE_FORMAT },
+      { header: 'Type', key: 'type', width: 12 },
+      { header: 'Category', key: 'category', width: 28 },
+      { header: 'Description', key: 'description', width: 40 },
+      { header: 'Amount', key: 'amount', width: 20, numFmt: AMOUNT_FORMAT },
+      { header: 'Created', key: 'created', width: 18, numFmt: TIMESTAMP_FORMAT },
+    ],
+    data.transactions.map((t) => ({
+      date: toDateCell(t.transaction_date),
+      type: t.type,
+      category: t.categories?.name || 'Uncategorized',
+      description: t.description,
+      amount: parseFloat(String(t.amount)),
+      created: toTimestampCell(t.created_at),
+    }))
+  );
+
+  addTable(
+    workbook.addWorksheet('Debts & Receivables'),
+    [
+      { header: 'Type', key: 'type', width: 12 },
+      { header: 'Party', key: 'party', width: 28 },
+      { header: 'Description', key: 'description', width: 36 },
+      { header: 'Amount', key: 'amount', width: 20, numFmt: AMOUNT_FORMAT },
+      { header: 'Paid', key: 'paid', width: 20, numFmt: AMOUNT_FORMAT },
+      { header: 'Outstanding', key: 'outstanding', width: 20, numFmt: AMOUNT_FORMAT },
+      { header: 'Due Date', key: 'dueDate', width: 14, numFmt: DATE_FORMAT },
+    ],
+    [...buildOutstandingRows(data.receivables), ...buildOutstandingRows(data.debts)]
+  );
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = data.fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
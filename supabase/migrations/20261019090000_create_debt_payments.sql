@@ -0,0 +1,73 @@
+/*
+  # Debt and receivable payment ledger
+
+  ## 1. New Tables
+
+  ### `debt_payments`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `debt_receivable_id` (uuid, references debts_receivables)
+  - `amount` (numeric)
+  - `payment_date` (date)
+  - `note` (text)
+  - `created_at` (timestamptz)
+
+  `debts_receivables.paid_amount` and `status` are now derived from the sum
+  of an item's payments.
+
+  ## 2. Data
+
+  - Existing non-zero `paid_amount` values are carried over as a single
+    payment dated on the item's last update
+
+  ## 3. Security
+
+  - Enable RLS on `debt_payments`
+  - Policies for authenticated users to access their own payments
+*/
+
+-- Create debt_payments table
+CREATE TABLE IF NOT EXISTS debt_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  debt_receivable_id uuid REFERENCES debts_receivables(id) ON DELETE CASCADE NOT NULL,
+  amount numeric(15,2) NOT NULL CHECK (amount > 0),
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  note text,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_debt_payments_user_id ON debt_payments(user_id);
+CREATE INDEX IF NOT EXISTS idx_debt_payments_debt_receivable_id ON debt_payments(debt_receivable_id);
+
+-- Carry over existing cumulative payments
+INSERT INTO debt_payments (user_id, debt_receivable_id, amount, payment_date, note)
+SELECT user_id, id, paid_amount, updated_at::date, 'Paid before payment history was recorded'
+FROM debts_receivables
+WHERE paid_amount > 0;
+
+-- Enable Row Level Security
+ALTER TABLE debt_payments ENABLE ROW LEVEL SECURITY;
+
+-- Debt payments policies
+CREATE POLICY "Users can view own debt payments"
+  ON debt_payments FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own debt payments"
+  ON debt_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own debt payments"
+  ON debt_payments FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own debt payments"
+  ON debt_payments FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,20 @@
+/*
+  # Link debt payments to transactions
+
+  ## 1. Changes
+
+  ### `debt_payments`
+  - `transaction_id` (uuid, references transactions) - the income or expense
+    transaction posted for this payment, if any
+
+  Deleting the transaction keeps the payment and clears the link.
+
+  ## 2. Indexes
+
+  - Index on transaction_id for looking up a transaction's payment
+*/
+
+ALTER TABLE debt_payments
+  ADD COLUMN IF NOT EXISTS transaction_id uuid REFERENCES transactions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_debt_payments_transaction_id ON debt_payments(transaction_id);
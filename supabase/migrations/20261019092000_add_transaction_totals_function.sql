@@ -0,0 +1,60 @@
+/*
+  # Transaction totals for filtered lists
+
+  ## 1. New Functions
+
+  ### `transaction_totals`
+  Returns total income, total expense and the row count for every
+  transaction matching the given filters, so list pages can show totals for
+  the full filtered set while only fetching one page of rows. Every
+  parameter is optional; NULL means "no filter".
+
+  - `p_type` (text) - income or expense
+  - `p_date_from` (date) - inclusive lower bound on transaction_date
+  - `p_date_to` (date) - inclusive upper bound on transaction_date
+  - `p_search` (text) - case-insensitive substring of description
+  - `p_debt_receivable_id` (uuid) - only transactions posted from payments of
+    this debt or receivable
+
+  ## 2. Security
+
+  - SECURITY INVOKER, so the caller's RLS policies on `transactions` apply
+
+  ## 3. Indexes
+
+  - Composite index on (user_id, transaction_date) for paged, date-sorted lists
+*/
+
+CREATE OR REPLACE FUNCTION transaction_totals(
+  p_type text DEFAULT NULL,
+  p_date_from date DEFAULT NULL,
+  p_date_to date DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_debt_receivable_id uuid DEFAULT NULL
+)
+RETURNS TABLE (total_income numeric, total_expense numeric, transaction_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'income'), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'expense'), 0),
+    COUNT(*)
+  FROM transactions t
+  WHERE (p_type IS NULL OR t.type = p_type)
+    AND (p_date_from IS NULL OR t.transaction_date >= p_date_from)
+    AND (p_date_to IS NULL OR t.transaction_date <= p_date_to)
+    AND (p_search IS NULL OR t.description ILIKE '%' || p_search || '%')
+    AND (
+      p_debt_receivable_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM debt_payments p
+        WHERE p.transaction_id = t.id AND p.debt_receivable_id = p_debt_receivable_id
+      )
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION transaction_totals(text, date, date, text, uuid) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_user_id_date ON transactions(user_id, transaction_date);
@@ -0,0 +1,63 @@
+/*
+  # Category filters for transaction totals
+
+  ## 1. Changed Functions
+
+  ### `transaction_totals`
+  Adds two optional filters so totals match the transactions list:
+
+  - `p_category_ids` (uuid[]) - only transactions in one of these categories
+  - `p_uncategorized_only` (boolean) - only transactions without a category;
+    takes precedence over `p_category_ids`
+
+  The previous five-argument version is dropped so calls are not ambiguous.
+
+  ## 2. Indexes
+
+  - Index on category_id for category filters
+*/
+
+DROP FUNCTION IF EXISTS transaction_totals(text, date, date, text, uuid);
+
+CREATE OR REPLACE FUNCTION transaction_totals(
+  p_type text DEFAULT NULL,
+  p_date_from date DEFAULT NULL,
+  p_date_to date DEFAULT NULL,
+  p_search text DEFAULT NULL,
+  p_debt_receivable_id uuid DEFAULT NULL,
+  p_category_ids uuid[] DEFAULT NULL,
+  p_uncategorized_only boolean DEFAULT false
+)
+RETURNS TABLE (total_income numeric, total_expense numeric, transaction_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'income'), 0),
+    COALESCE(SUM(t.amount) FILTER (WHERE t.type = 'expense'), 0),
+    COUNT(*)
+  FROM transactions t
+  WHERE (p_type IS NULL OR t.type = p_type)
+    AND (p_date_from IS NULL OR t.transaction_date >= p_date_from)
+    AND (p_date_to IS NULL OR t.transaction_date <= p_date_to)
+    AND (p_search IS NULL OR t.description ILIKE '%' || p_search || '%')
+    AND (
+      p_debt_receivable_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM debt_payments p
+        WHERE p.transaction_id = t.id AND p.debt_receivable_id = p_debt_receivable_id
+      )
+    )
+    AND (
+      CASE
+        WHEN p_uncategorized_only THEN t.category_id IS NULL
+        WHEN p_category_ids IS NOT NULL AND cardinality(p_category_ids) > 0 THEN t.category_id = ANY(p_category_ids)
+        ELSE true
+      END
+    );
+$$;
+
+GRANT EXECUTE ON FUNCTION transaction_totals(text, date, date, text, uuid, uuid[], boolean) TO authenticated;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_category_id ON transactions(category_id);
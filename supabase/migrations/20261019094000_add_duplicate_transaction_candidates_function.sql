@@ -0,0 +1,35 @@
+/*
+  # Duplicate transaction candidates
+
+  ## 1. New Functions
+
+  ### `duplicate_transaction_candidates`
+  Returns every transaction that shares its date, type and amount with at
+  least one other transaction of the same user. The client then compares
+  descriptions to decide which candidates are likely duplicates.
+
+  ## 2. Security
+
+  - SECURITY INVOKER, so the caller's RLS policies on `transactions` apply
+*/
+
+CREATE OR REPLACE FUNCTION duplicate_transaction_candidates()
+RETURNS SETOF transactions
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT t.*
+  FROM transactions t
+  WHERE EXISTS (
+    SELECT 1 FROM transactions o
+    WHERE o.id <> t.id
+      AND o.user_id = t.user_id
+      AND o.transaction_date = t.transaction_date
+      AND o.type = t.type
+      AND o.amount = t.amount
+  )
+  ORDER BY t.transaction_date DESC, t.amount DESC, t.created_at;
+$$;
+
+GRANT EXECUTE ON FUNCTION duplicate_transaction_candidates() TO authenticated;
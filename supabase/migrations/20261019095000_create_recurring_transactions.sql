@@ -0,0 +1,135 @@
+/*
+  # Recurring transactions
+
+  ## 1. New Tables
+
+  ### `recurring_transactions`
+  Templates for entries that repeat, such as rent or salaries.
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `category_id` (uuid, references categories)
+  - `type` (text) - income, expense
+  - `amount` (numeric)
+  - `description` (text)
+  - `frequency` (text) - daily, weekly, monthly, yearly
+  - `start_date` (date) - first occurrence
+  - `end_date` (date) - last possible occurrence, NULL for no end
+  - `last_materialized_date` (date) - occurrences up to this date have been
+    turned into transactions
+  - `active` (boolean) - paused templates are not materialised
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ### `recurring_occurrence_overrides`
+  Changes to a single upcoming occurrence.
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `recurring_id` (uuid, references recurring_transactions)
+  - `occurrence_date` (date)
+  - `skip` (boolean) - do not create a transaction for this occurrence
+  - `amount` (numeric) - replaces the template amount when set
+  - `description` (text) - replaces the template description when set
+  - `created_at` (timestamptz)
+
+  ## 2. Changes
+
+  ### `transactions`
+  - `recurring_id` (uuid, references recurring_transactions)
+  - `occurrence_date` (date)
+
+  A unique index on (recurring_id, occurrence_date) keeps an occurrence from
+  being materialised twice when two sessions catch up at the same time.
+
+  ## 3. Security
+
+  - Enable RLS on both new tables
+  - Policies for authenticated users to access their own data
+*/
+
+-- Create recurring_transactions table
+CREATE TABLE IF NOT EXISTS recurring_transactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  category_id uuid REFERENCES categories(id) ON DELETE SET NULL,
+  type text NOT NULL CHECK (type IN ('income', 'expense')),
+  amount numeric(15,2) NOT NULL CHECK (amount >= 0),
+  description text,
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly')),
+  start_date date NOT NULL,
+  end_date date CHECK (end_date IS NULL OR end_date >= start_date),
+  last_materialized_date date,
+  active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create recurring_occurrence_overrides table
+CREATE TABLE IF NOT EXISTS recurring_occurrence_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  recurring_id uuid REFERENCES recurring_transactions(id) ON DELETE CASCADE NOT NULL,
+  occurrence_date date NOT NULL,
+  skip boolean NOT NULL DEFAULT false,
+  amount numeric(15,2) CHECK (amount >= 0),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (recurring_id, occurrence_date)
+);
+
+-- Link materialised transactions to their template
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS recurring_id uuid REFERENCES recurring_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS occurrence_date date;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_recurring_transactions_user_id ON recurring_transactions(user_id);
+CREATE INDEX IF NOT EXISTS idx_recurring_occurrence_overrides_recurring_id ON recurring_occurrence_overrides(recurring_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_recurring_occurrence ON transactions(recurring_id, occurrence_date);
+
+-- Enable Row Level Security
+ALTER TABLE recurring_transactions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recurring_occurrence_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Recurring transactions policies
+CREATE POLICY "Users can view own recurring transactions"
+  ON recurring_transactions FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own recurring transactions"
+  ON recurring_transactions FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own recurring transactions"
+  ON recurring_transactions FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own recurring transactions"
+  ON recurring_transactions FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Recurring occurrence overrides policies
+CREATE POLICY "Users can view own recurring overrides"
+  ON recurring_occurrence_overrides FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own recurring overrides"
+  ON recurring_occurrence_overrides FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own recurring overrides"
+  ON recurring_occurrence_overrides FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own recurring overrides"
+  ON recurring_occurrence_overrides FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
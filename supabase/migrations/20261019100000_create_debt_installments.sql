@@ -0,0 +1,65 @@
+/*
+  # Debt and receivable installments
+
+  ## 1. New Tables
+
+  ### `debt_installments`
+  The payment schedule of a debt or receivable paid in installments.
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `debt_receivable_id` (uuid, references debts_receivables)
+  - `sequence` (integer) - 1 for the first installment
+  - `due_date` (date)
+  - `amount` (numeric)
+  - `created_at` (timestamptz)
+
+  Payments are not tied to a single installment. They are applied to the
+  schedule in due-date order, so an installment is settled once the total
+  paid covers it and every installment before it.
+
+  ## 2. Security
+
+  - Enable RLS on `debt_installments`
+  - Policies for authenticated users to access their own data
+*/
+
+-- Create debt_installments table
+CREATE TABLE IF NOT EXISTS debt_installments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  debt_receivable_id uuid REFERENCES debts_receivables(id) ON DELETE CASCADE NOT NULL,
+  sequence integer NOT NULL CHECK (sequence > 0),
+  due_date date NOT NULL,
+  amount numeric(15,2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (debt_receivable_id, sequence)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_debt_installments_user_id ON debt_installments(user_id);
+CREATE INDEX IF NOT EXISTS idx_debt_installments_due_date ON debt_installments(due_date);
+
+-- Enable Row Level Security
+ALTER TABLE debt_installments ENABLE ROW LEVEL SECURITY;
+
+-- Debt installments policies
+CREATE POLICY "Users can view own debt installments"
+  ON debt_installments FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own debt installments"
+  ON debt_installments FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own debt installments"
+  ON debt_installments FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own debt installments"
+  ON debt_installments FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,13 @@
+/*
+  # Cost of sales categories
+
+  ## 1. Changes
+
+  ### `categories`
+  - `is_cost_of_sales` (boolean) - marks an expense category as cost of goods
+    sold (harga pokok penjualan). The profit and loss statement subtracts
+    these from revenue to arrive at gross profit, before operating expenses.
+*/
+
+ALTER TABLE categories
+  ADD COLUMN IF NOT EXISTS is_cost_of_sales boolean NOT NULL DEFAULT false;
@@ -0,0 +1,15 @@
+/*
+  # Fiscal year start
+
+  ## 1. Changes
+
+  ### `profiles`
+  - `fiscal_year_start_month` (smallint, 1-12) - the month the business's
+    fiscal year begins in. Date range pickers use it for the "This Fiscal
+    Year" and "Last Fiscal Year" presets. Defaults to January, so the fiscal
+    year matches the calendar year until the owner changes it.
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS fiscal_year_start_month smallint NOT NULL DEFAULT 1
+  CHECK (fiscal_year_start_month BETWEEN 1 AND 12);
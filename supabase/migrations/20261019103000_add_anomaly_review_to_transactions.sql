@@ -0,0 +1,15 @@
+/*
+  # Unusual transaction review
+
+  ## 1. Changes
+
+  ### `transactions`
+  - `anomaly_reviewed_at` (timestamptz, nullable) - when the owner confirmed
+    that an amount flagged as unusual for its category is correct. Reviewed
+    transactions no longer show the "Unusual" badge or appear in the review
+    queue. Null for transactions that were never flagged or not yet
+    reviewed.
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS anomaly_reviewed_at timestamptz;
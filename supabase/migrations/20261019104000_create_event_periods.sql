@@ -0,0 +1,58 @@
+/*
+  # Event periods
+
+  ## 1. New Tables
+
+  ### `event_periods`
+  Date ranges the owner marks as special, such as Ramadan or Lebaran, so
+  analytics can compare them with ordinary weeks.
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `name` (text)
+  - `start_date` (date) - first day of the event
+  - `end_date` (date) - last day of the event
+  - `created_at` (timestamptz)
+
+  ## 2. Security
+
+  - Enable RLS on `event_periods`
+  - Policies for authenticated users to access their own data
+*/
+
+-- Create event_periods table
+CREATE TABLE IF NOT EXISTS event_periods (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  start_date date NOT NULL,
+  end_date date NOT NULL CHECK (end_date >= start_date),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_event_periods_user_id ON event_periods(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE event_periods ENABLE ROW LEVEL SECURITY;
+
+-- Event periods policies
+CREATE POLICY "Users can view own event periods"
+  ON event_periods FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own event periods"
+  ON event_periods FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own event periods"
+  ON event_periods FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own event periods"
+  ON event_periods FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,65 @@
+/*
+  # Budgets
+
+  ## 1. New Tables
+
+  ### `budgets`
+  A monthly spending limit for one expense category.
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `category_id` (uuid, references categories) - at most one budget per
+    category
+  - `monthly_limit` (numeric) - planned spending per calendar month
+  - `rollover` (boolean) - whether the unspent part of a month is added to
+    the next month's limit. Overspending is not carried forward.
+  - `start_month` (date) - first day of the first month the budget covers;
+    rollover is counted from here
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## 2. Security
+
+  - Enable RLS on `budgets`
+  - Policies for authenticated users to access their own data
+*/
+
+-- Create budgets table
+CREATE TABLE IF NOT EXISTS budgets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  category_id uuid REFERENCES categories(id) ON DELETE CASCADE NOT NULL,
+  monthly_limit numeric(15,2) NOT NULL CHECK (monthly_limit >= 0),
+  rollover boolean NOT NULL DEFAULT false,
+  start_month date NOT NULL CHECK (EXTRACT(DAY FROM start_month) = 1),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, category_id)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_budgets_user_id ON budgets(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE budgets ENABLE ROW LEVEL SECURITY;
+
+-- Budgets policies
+CREATE POLICY "Users can view own budgets"
+  ON budgets FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own budgets"
+  ON budgets FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own budgets"
+  ON budgets FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own budgets"
+  ON budgets FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,73 @@
+/*
+  # Goals
+
+  ## 1. New Tables
+
+  ### `goals`
+  Targets to reach by a deadline, such as a monthly revenue goal or savings
+  for new equipment.
+  - `id` (uuid, primary key)
+  - `user_id` (uuid, references profiles)
+  - `name` (text)
+  - `kind` (text) - revenue (income received) or savings (income less
+    expenses)
+  - `target_amount` (numeric)
+  - `start_date` (date) - first day that counts towards the goal
+  - `deadline` (date) - last day that counts towards the goal
+  - `archived_at` (timestamptz) - when the goal was closed after its
+    deadline passed; NULL while it is active
+  - `final_amount` (numeric) - amount reached by the deadline, set on
+    archiving
+  - `outcome` (text) - achieved, missed; set on archiving
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## 2. Security
+
+  - Enable RLS on `goals`
+  - Policies for authenticated users to access their own data
+*/
+
+-- Create goals table
+CREATE TABLE IF NOT EXISTS goals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('revenue', 'savings')),
+  target_amount numeric(15,2) NOT NULL CHECK (target_amount > 0),
+  start_date date NOT NULL,
+  deadline date NOT NULL CHECK (deadline >= start_date),
+  archived_at timestamptz,
+  final_amount numeric(15,2),
+  outcome text CHECK (outcome IN ('achieved', 'missed')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS idx_goals_user_id ON goals(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE goals ENABLE ROW LEVEL SECURITY;
+
+-- Goals policies
+CREATE POLICY "Users can view own goals"
+  ON goals FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own goals"
+  ON goals FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own goals"
+  ON goals FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own goals"
+  ON goals FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,45 @@
+/*
+  # Open cash periods atomically
+
+  ## 1. New Functions
+
+  ### `open_cash_period`
+  Closes the caller's running cash period on the day before
+  `p_period_start` and opens a new period from that date with the given
+  opening balance. Both changes happen in one transaction, so a failed
+  insert leaves the running period open.
+
+  - `p_period_start` (date) - first day of the new period
+  - `p_opening_balance` (numeric) - balance carried into the new period
+
+  ## 2. Security
+
+  - SECURITY INVOKER, so the caller's RLS policies on `cash_flow` apply
+*/
+
+CREATE OR REPLACE FUNCTION open_cash_period(
+  p_period_start date,
+  p_opening_balance numeric
+)
+RETURNS cash_flow
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_period cash_flow;
+BEGIN
+  UPDATE cash_flow
+  SET period_end = p_period_start - 1
+  WHERE user_id = auth.uid()
+    AND period_end IS NULL
+    AND period_start < p_period_start;
+
+  INSERT INTO cash_flow (user_id, period_start, opening_balance)
+  VALUES (auth.uid(), p_period_start, p_opening_balance)
+  RETURNING * INTO v_period;
+
+  RETURN v_period;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION open_cash_period(date, numeric) TO authenticated;
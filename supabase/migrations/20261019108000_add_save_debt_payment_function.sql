@@ -0,0 +1,164 @@
+/*
+  # Save debt payments atomically
+
+  ## 1. Security Changes
+
+  ### `debt_payments`
+  - The insert and update policies now also require the referenced debt or
+    receivable, and the linked transaction if any, to belong to the caller
+
+  ## 2. New Functions
+
+  ### `save_debt_payment`
+  Records a new payment, or updates `p_payment_id`, together with the
+  transaction it posts and the item's `paid_amount` and `status`. Everything
+  happens in one transaction, so a failure part way leaves no posted
+  transaction without its payment and no totals out of step with the ledger.
+
+  - `p_payment_id` (uuid) - payment to update; NULL records a new one
+  - `p_debt_receivable_id` (uuid)
+  - `p_amount` (numeric)
+  - `p_payment_date` (date)
+  - `p_note` (text)
+  - `p_post_transaction` (boolean) - post the payment as a transaction;
+    when false, a transaction posted earlier for the payment is deleted
+  - `p_transaction_type` (text) - income or expense
+  - `p_category_id` (uuid) - category of the posted transaction
+  - `p_description` (text) - description of the posted transaction
+
+  - SECURITY INVOKER, so the caller's RLS policies apply
+*/
+
+DROP POLICY IF EXISTS "Users can insert own debt payments" ON debt_payments;
+DROP POLICY IF EXISTS "Users can update own debt payments" ON debt_payments;
+
+CREATE POLICY "Users can insert own debt payments"
+  ON debt_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM debts_receivables d
+      WHERE d.id = debt_receivable_id AND d.user_id = auth.uid()
+    )
+    AND (
+      transaction_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM transactions t
+        WHERE t.id = transaction_id AND t.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE POLICY "Users can update own debt payments"
+  ON debt_payments FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM debts_receivables d
+      WHERE d.id = debt_receivable_id AND d.user_id = auth.uid()
+    )
+    AND (
+      transaction_id IS NULL
+      OR EXISTS (
+        SELECT 1 FROM transactions t
+        WHERE t.id = transaction_id AND t.user_id = auth.uid()
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION save_debt_payment(
+  p_payment_id uuid,
+  p_debt_receivable_id uuid,
+  p_amount numeric,
+  p_payment_date date,
+  p_note text,
+  p_post_transaction boolean,
+  p_transaction_type text,
+  p_category_id uuid,
+  p_description text
+)
+RETURNS debt_payments
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_item debts_receivables;
+  v_payment debt_payments;
+  v_transaction_id uuid;
+  v_paid numeric;
+BEGIN
+  SELECT * INTO v_item FROM debts_receivables WHERE id = p_debt_receivable_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Debt or receivable not found';
+  END IF;
+
+  IF p_payment_id IS NOT NULL THEN
+    SELECT * INTO v_payment
+    FROM debt_payments
+    WHERE id = p_payment_id AND debt_receivable_id = p_debt_receivable_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Payment not found';
+    END IF;
+    v_transaction_id := v_payment.transaction_id;
+  END IF;
+
+  IF p_post_transaction THEN
+    IF v_transaction_id IS NULL THEN
+      INSERT INTO transactions (user_id, type, amount, category_id, description, transaction_date)
+      VALUES (auth.uid(), p_transaction_type, p_amount, p_category_id, p_description, p_payment_date)
+      RETURNING id INTO v_transaction_id;
+    ELSE
+      UPDATE transactions
+      SET type = p_transaction_type,
+          amount = p_amount,
+          category_id = p_category_id,
+          description = p_description,
+          transaction_date = p_payment_date,
+          updated_at = now()
+      WHERE id = v_transaction_id;
+    END IF;
+  END IF;
+
+  IF p_payment_id IS NULL THEN
+    INSERT INTO debt_payments (user_id, debt_receivable_id, amount, payment_date, note, transaction_id)
+    VALUES (auth.uid(), p_debt_receivable_id, p_amount, p_payment_date, p_note, v_transaction_id)
+    RETURNING * INTO v_payment;
+  ELSE
+    UPDATE debt_payments
+    SET amount = p_amount,
+        payment_date = p_payment_date,
+        note = p_note,
+        transaction_id = CASE WHEN p_post_transaction THEN v_transaction_id END
+    WHERE id = p_payment_id
+    RETURNING * INTO v_payment;
+  END IF;
+
+  -- The payment no longer references it, so the unposted transaction can go.
+  IF NOT p_post_transaction AND v_transaction_id IS NOT NULL THEN
+    DELETE FROM transactions WHERE id = v_transaction_id;
+  END IF;
+
+  -- Same rules as getDebtStatus in the client.
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM debt_payments
+  WHERE debt_receivable_id = p_debt_receivable_id;
+
+  UPDATE debts_receivables
+  SET paid_amount = v_paid,
+      status = CASE
+        WHEN v_paid >= amount THEN 'paid'
+        WHEN v_paid > 0 THEN 'partial'
+        ELSE 'pending'
+      END,
+      updated_at = now()
+  WHERE id = p_debt_receivable_id;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_debt_payment(uuid, uuid, numeric, date, text, boolean, text, uuid, text) TO authenticated;
@@ -0,0 +1,83 @@
+/*
+  # Save debts and receivables with their schedule atomically
+
+  ## 1. New Functions
+
+  ### `save_debt_receivable`
+  Creates a debt or receivable, or updates `p_id`, and replaces its
+  installment schedule in one transaction. A rejected schedule leaves
+  neither a new item without its installments nor an edited item with its
+  old schedule deleted.
+
+  - `p_id` (uuid) - item to update; NULL creates a new one
+  - `p_type` (text) - debt or receivable
+  - `p_party_name` (text)
+  - `p_amount` (numeric)
+  - `p_due_date` (date)
+  - `p_description` (text)
+  - `p_status` (text) - pending, partial or paid
+  - `p_installments` (jsonb) - array of `{ due_date, amount }` replacing the
+    schedule, numbered in due-date order; NULL keeps the current schedule
+    and an empty array removes it
+
+  ## 2. Security
+
+  - SECURITY INVOKER, so the caller's RLS policies apply
+*/
+
+CREATE OR REPLACE FUNCTION save_debt_receivable(
+  p_id uuid,
+  p_type text,
+  p_party_name text,
+  p_amount numeric,
+  p_due_date date,
+  p_description text,
+  p_status text,
+  p_installments jsonb
+)
+RETURNS debts_receivables
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_item debts_receivables;
+BEGIN
+  IF p_id IS NULL THEN
+    INSERT INTO debts_receivables (user_id, type, party_name, amount, due_date, description, status)
+    VALUES (auth.uid(), p_type, p_party_name, p_amount, p_due_date, p_description, p_status)
+    RETURNING * INTO v_item;
+  ELSE
+    UPDATE debts_receivables
+    SET type = p_type,
+        party_name = p_party_name,
+        amount = p_amount,
+        due_date = p_due_date,
+        description = p_description,
+        status = p_status,
+        updated_at = now()
+    WHERE id = p_id
+    RETURNING * INTO v_item;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Debt or receivable not found';
+    END IF;
+  END IF;
+
+  IF p_installments IS NOT NULL THEN
+    DELETE FROM debt_installments WHERE debt_receivable_id = v_item.id;
+
+    INSERT INTO debt_installments (user_id, debt_receivable_id, sequence, due_date, amount)
+    SELECT
+      auth.uid(),
+      v_item.id,
+      row_number() OVER (ORDER BY (e.value->>'due_date')::date, e.position),
+      (e.value->>'due_date')::date,
+      (e.value->>'amount')::numeric
+    FROM jsonb_array_elements(p_installments) WITH ORDINALITY AS e(value, position);
+  END IF;
+
+  RETURN v_item;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_debt_receivable(uuid, text, text, numeric, date, text, text, jsonb) TO authenticated;
@@ -0,0 +1,93 @@
+/*
+  # Delete debt payments and items atomically
+
+  ## 1. New Functions
+
+  ### `delete_debt_payment`
+  Deletes a payment together with the transaction it posted and recomputes
+  the item's `paid_amount` and `status`, all in one transaction. A failure
+  part way leaves no payment without its transaction and no totals out of
+  step with the ledger.
+
+  - `p_payment_id` (uuid) - payment to delete
+
+  ### `delete_debt_receivable`
+  Deletes a debt or receivable and the transactions its payments posted.
+  The payments and installments cascade with the item; the transactions
+  would otherwise outlive it.
+
+  - `p_id` (uuid) - item to delete
+
+  ## 2. Security
+
+  - SECURITY INVOKER, so the caller's RLS policies apply
+*/
+
+CREATE OR REPLACE FUNCTION delete_debt_payment(
+  p_payment_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_payment debt_payments;
+  v_paid numeric;
+BEGIN
+  DELETE FROM debt_payments
+  WHERE id = p_payment_id
+  RETURNING * INTO v_payment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payment not found';
+  END IF;
+
+  IF v_payment.transaction_id IS NOT NULL THEN
+    DELETE FROM transactions WHERE id = v_payment.transaction_id;
+  END IF;
+
+  -- Same rules as getDebtStatus in the client.
+  SELECT COALESCE(SUM(amount), 0) INTO v_paid
+  FROM debt_payments
+  WHERE debt_receivable_id = v_payment.debt_receivable_id;
+
+  UPDATE debts_receivables
+  SET paid_amount = v_paid,
+      status = CASE
+        WHEN v_paid >= amount THEN 'paid'
+        WHEN v_paid > 0 THEN 'partial'
+        ELSE 'pending'
+      END,
+      updated_at = now()
+  WHERE id = v_payment.debt_receivable_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_debt_receivable(
+  p_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_transaction_ids uuid[];
+BEGIN
+  SELECT array_agg(transaction_id) INTO v_transaction_ids
+  FROM debt_payments
+  WHERE debt_receivable_id = p_id AND transaction_id IS NOT NULL;
+
+  DELETE FROM debts_receivables WHERE id = p_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Debt or receivable not found';
+  END IF;
+
+  IF v_transaction_ids IS NOT NULL THEN
+    DELETE FROM transactions WHERE id = ANY(v_transaction_ids);
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_debt_payment(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION delete_debt_receivable(uuid) TO authenticated;
@@ -0,0 +1,35 @@
+/*
+  # Check the parent item of debt installments
+
+  ## 1. Security Changes
+
+  ### `debt_installments`
+  - The insert and update policies now also require the referenced debt or
+    receivable to belong to the caller
+*/
+
+DROP POLICY IF EXISTS "Users can insert own debt installments" ON debt_installments;
+DROP POLICY IF EXISTS "Users can update own debt installments" ON debt_installments;
+
+CREATE POLICY "Users can insert own debt installments"
+  ON debt_installments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM debts_receivables d
+      WHERE d.id = debt_receivable_id AND d.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own debt installments"
+  ON debt_installments FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM debts_receivables d
+      WHERE d.id = debt_receivable_id AND d.user_id = auth.uid()
+    )
+  );